@@ -5,12 +5,14 @@ export type {
   default as ListMonkClientType,
   LMCListMemberStatus,
   LMCSubscriber,
+  LMCSubscriberIdentifier,
   LMCSubscriberAttribs,
   LMCSubscriptionStatus,
   LMCSubscribeOptions,
   LMCUnsubscribeListResult,
   LMCUnsubscribeResult,
   LMCSubscribeResult,
+  LMCConfirmSubscriptionsResult,
   LMCSetSubscriptionsStatus,
   LMCSetSubscriptionsListResult,
   LMCSetSubscriptionsResult,
@@ -18,14 +20,95 @@ export type {
   LMCSubscription,
   LMCListRecord,
   LMCListVisibility,
+  LMCListOptin,
+  LMCListInput,
   LMCUser,
+  LMCUserUpdate,
+  LMCAttribsValidator,
   LMCSyncUsersResult,
+  LMCSyncUsersOptions,
+  LMCAttribMergeStrategy,
+  LMCAttribMergeOptions,
+  LMCMirrorPolicy,
+  LMCMirrorOptions,
+  LMCMirrorResult,
+  LMCSyncJobKind,
+  LMCSyncCheckpoint,
+  LMCCheckpointStore,
+  LMCSyncJobProgress,
+  LMCSyncJobOptions,
+  LMCSyncUserOutcome,
+  LMCSyncUserReport,
+  LMCSyncUserError,
+  LMCBulkAddOptions,
+  LMCProgressPhase,
+  LMCProgressCounts,
+  LMCProgress,
+  LMCPlanField,
+  LMCPlanEntry,
+  LMCSyncPlan,
   LMCSubscriberPage,
+  LMCListSubscriptionStatus,
+  LMCIterateSubscribersOptions,
+  LMCSubscriberColumn,
+  LMCAttribField,
+  LMCQueryField,
+  LMCQueryValue,
+  LMCSearchOptions,
   LMCResponseData,
+  LMCErrorCode,
   LMCConfig,
+  LMCAuth,
+  LMCFetch,
+  LMCHttpMethod,
+  LMCRetryOptions,
+  LMCRetryInfo,
+  LMCQueueWaitInfo,
+  LMCQueueStats,
+  LMCMiddleware,
+  LMCRequestContext,
+  LMCLogger,
+  LMCLogLevel,
+  LMCLogFields,
   LMCBulkSubscription,
   LMCSubscriptionSnapshot,
   LMCBulkAddResult,
   LMCBulkAddError,
+  LMCCampaign,
+  LMCCampaignStatus,
+  LMCCampaignType,
+  LMCCampaignContentType,
+  LMCCampaignList,
+  LMCCampaignInput,
+  LMCCampaignPage,
+  LMCListCampaignsOptions,
+  LMCTransactionalContentType,
+  LMCTransactionalAttachment,
+  LMCTransactionalMessage,
+  LMCTemplate,
+  LMCTemplateType,
+  LMCTemplateInput,
+  LMCImportMode,
+  LMCImportState,
+  LMCImportFile,
+  LMCImportOptions,
+  LMCImportStatus,
+  LMCWaitForImportOptions,
+  LMCExportFormat,
+  LMCExportColumn,
+  LMCExportOptions,
 } from "./listmonk-client.js";
-export { LMCResponse } from "./listmonk-client.js";
+export {
+  LMCResponse,
+  LMCError,
+  LMCQuery,
+  LMCMemoryCheckpointStore,
+} from "./listmonk-client.js";
+export { LMCPublicClient } from "./listmonk-public.js";
+export type {
+  LMCPublicCaptcha,
+  LMCPublicConfig,
+  LMCPublicList,
+  LMCPublicSubscribeInput,
+  LMCPublicSubscribeResult,
+} from "./listmonk-public.js";
@@ -1,21 +1,134 @@
 type JsonPrimitive = string | number | boolean | null;
 type JsonValue = JsonPrimitive | JsonValue[] | { [key: string]: JsonValue };
 
-export interface LMCConfig {
+export type LMCHttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+export interface LMCRetryInfo {
+  attempt: number;
+  maxAttempts: number;
+  method: LMCHttpMethod;
+  url: string;
+  delayMS: number;
+  status?: number;
+  error?: string;
+}
+
+export interface LMCRetryOptions {
+  maxAttempts?: number;
+  baseDelayMS?: number;
+  maxDelayMS?: number;
+  jitter?: boolean;
+  retryOnStatus?: number[];
+  retryMethods?: LMCHttpMethod[];
+  respectRetryAfter?: boolean;
+  onRetry?: (info: LMCRetryInfo) => void;
+}
+
+export type LMCAuth =
+  | { type: "basic"; user: string; token: string }
+  | { type: "token"; user: string; token: string }
+  | { type: "bearer"; token: string }
+  | {
+      type: "custom";
+      headers: () => HeadersInit | Promise<HeadersInit>;
+    }
+  | { type: "none" };
+
+export type LMCFetch = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface LMCConfig<A extends object = LMCSubscriberAttribs> {
   apiURL: string;
-  token: string;
+  token?: string;
   user?: string;
+  auth?: LMCAuth;
+  fetch?: LMCFetch;
   timeoutMS?: number;
   debug?: boolean;
   listPageSize?: number;
   listCacheSeconds?: number;
+  retry?: boolean | LMCRetryOptions;
+  maxConcurrent?: number;
+  requestsPerSecond?: number;
+  onQueueWait?: (info: LMCQueueWaitInfo) => void;
+  middleware?: LMCMiddleware[];
+  logger?: LMCLogger;
+  redactEmails?: boolean;
+  validateAttribs?: LMCAttribsValidator<A>;
+  validateResponses?: boolean;
+  throwOnError?: boolean;
+}
+
+export type LMCAttribsValidator<A extends object = LMCSubscriberAttribs> = (
+  attribs: A,
+) => boolean | string;
+
+export type LMCLogLevel = "debug" | "info" | "warn" | "error";
+
+export type LMCLogFields = Record<string, unknown>;
+
+export interface LMCLogger {
+  debug(message: string, fields?: LMCLogFields): void;
+  info(message: string, fields?: LMCLogFields): void;
+  warn(message: string, fields?: LMCLogFields): void;
+  error(message: string, fields?: LMCLogFields): void;
+}
+
+export interface LMCRequestContext {
+  method: LMCHttpMethod;
+  url: string;
+  headers: Headers;
+  body?: RequestInit["body"];
+  attempt: number;
+  startedAt: number;
+}
+
+export interface LMCMiddleware {
+  beforeRequest?: (ctx: LMCRequestContext) => void | Promise<void>;
+  afterResponse?: (
+    ctx: LMCRequestContext,
+    res: Response,
+  ) => void | Response | Promise<void | Response>;
+  // Called when no response is available: network errors, timeouts and
+  // throwing afterResponse hooks. HTTP error statuses reach afterResponse.
+  onError?: (
+    ctx: LMCRequestContext,
+    error: LMCResponse<unknown>,
+  ) => void | Promise<void>;
+}
+
+export interface LMCQueueWaitInfo {
+  waitMS: number;
+  queued: number;
+  active: number;
+}
+
+export interface LMCQueueStats {
+  active: number;
+  queued: number;
+  requests: number;
+  totalWaitMS: number;
+  maxWaitMS: number;
 }
 
+export type LMCErrorCode =
+  | "NOT_FOUND"
+  | "TIMEOUT"
+  | "VALIDATION"
+  | "AUTH"
+  | "CONFLICT"
+  | "RATE_LIMIT"
+  | "NETWORK"
+  | "PARSE"
+  | "PARTIAL_FAILURE"
+  | "SERVER"
+  | "UNKNOWN";
+
 export interface LMCResponseData<T = unknown> {
   success: boolean;
   code: number;
   message: string;
   data: T | null;
+  errorCode?: LMCErrorCode;
 }
 
 export type LMCSubscriberAttribs = Record<string, JsonValue>;
@@ -64,10 +177,16 @@ export interface LMCSetSubscriptionsResult {
 
 export interface LMCSetSubscriptionsOptions {
   removeOthers?: boolean;
+  dryRun?: boolean;
 }
 
-export type LMCListMemberStatus = "subscribed" | "unsubscribed" | "blocked";
+export type LMCListMemberStatus =
+  | "subscribed"
+  | "unconfirmed"
+  | "unsubscribed"
+  | "blocked";
 export type LMCListVisibility = "private" | "public";
+export type LMCListOptin = "single" | "double";
 
 export interface LMCSubscription {
   id: number;
@@ -79,37 +198,115 @@ export interface LMCListRecord {
   uuid?: string;
   name?: string;
   type?: string;
+  optin?: LMCListOptin;
   tags?: string[];
+  description?: string;
+  subscriber_count?: number;
   created_at?: string;
   updated_at?: string;
   subscription_status?: LMCSubscriptionStatus;
 }
 
-export interface LMCSubscriber {
+export interface LMCListInput {
+  name: string;
+  type?: LMCListVisibility;
+  optin?: LMCListOptin;
+  tags?: string[];
+  description?: string;
+}
+
+export interface LMCSubscriber<A extends object = LMCSubscriberAttribs> {
   id: number;
   uuid: string;
   email: string;
   name: string;
-  attribs: LMCSubscriberAttribs;
+  attribs: A;
   status: string;
   created_at?: string;
   updated_at?: string;
   lists?: Array<LMCSubscription | LMCListRecord>;
 }
 
-export interface LMCSubscriberPage {
-  results: LMCSubscriber[];
+export interface LMCSubscriberIdentifier {
+  id?: number;
+  uuid?: string;
+  email?: string;
+}
+
+export interface LMCSubscriberPage<A extends object = LMCSubscriberAttribs> {
+  results: LMCSubscriber<A>[];
   query?: string;
   total: number;
   per_page: number;
   page: number;
 }
 
-export interface LMCBulkSubscription {
+export type LMCListSubscriptionStatus =
+  | "unconfirmed"
+  | "confirmed"
+  | "unsubscribed";
+
+export type LMCSubscriberColumn =
+  | "id"
+  | "uuid"
+  | "email"
+  | "name"
+  | "status"
+  | "created_at"
+  | "updated_at";
+
+export interface LMCAttribField {
+  attrib: string | string[];
+}
+
+export type LMCQueryField = LMCSubscriberColumn | LMCAttribField;
+
+export type LMCQueryValue = string | number | boolean | Date;
+
+export interface LMCSearchOptions {
+  page?: number;
+  perPage?: number;
+  listIds?: number | number[];
+}
+
+export interface LMCIterateSubscribersOptions<
+  A extends object = LMCSubscriberAttribs,
+> {
+  query?: string | LMCQuery;
+  listIds?: number | number[];
+  subscriptionStatus?: LMCListSubscriptionStatus;
+  perPage?: number;
+  onError?: (res: LMCResponse<LMCSubscriberPage<A>>) => void;
+}
+
+export type LMCExportFormat = "csv" | "ndjson";
+
+// "attribs.<path>" reads one (nested) attribute; "subscription_status" is the
+// status on the exported list and "lists" lists every membership.
+export type LMCExportColumn =
+  | LMCSubscriberColumn
+  | "attribs"
+  | `attribs.${string}`
+  | "subscription_status"
+  | "lists";
+
+export interface LMCExportOptions<A extends object = LMCSubscriberAttribs>
+  extends Omit<
+    LMCIterateSubscribersOptions<A>,
+    "listIds" | "subscriptionStatus"
+  > {
+  format?: LMCExportFormat;
+  columns?: LMCExportColumn[];
+  listId?: number;
+  status?: LMCListMemberStatus;
+  delimiter?: string;
+}
+
+export interface LMCBulkSubscription<A extends object = LMCSubscriberAttribs> {
   email: string;
   name?: string;
   uid?: string;
-  attribs?: LMCSubscriberAttribs;
+  attribs?: A;
 }
 
 export interface LMCSubscriptionSnapshot {
@@ -117,9 +314,9 @@ export interface LMCSubscriptionSnapshot {
   lists?: LMCSubscription[];
 }
 
-export interface LMCBulkAddResult {
-  created: LMCSubscriber[];
-  added: LMCSubscriber[];
+export interface LMCBulkAddResult<A extends object = LMCSubscriberAttribs> {
+  created: LMCSubscriber<A>[];
+  added: LMCSubscriber<A>[];
   skippedBlocked: string[];
   skippedUnsubscribed: string[];
   memberships?: LMCSubscriptionSnapshot[];
@@ -132,25 +329,361 @@ export interface LMCBulkAddError {
   code?: number;
 }
 
-export interface LMCSubscribeResult {
-  subscriber: LMCSubscriber | null;
+export type LMCProgressPhase =
+  | "lookup-uid"
+  | "lookup-email"
+  | "create-update"
+  | "attach"
+  | "resubscribe"
+  | "mirror";
+
+export interface LMCProgressCounts {
+  created: number;
+  updated: number;
+  added: number;
+  resubscribed: number;
+  skipped: number;
+  removed: number;
+  failed: number;
+}
+
+export interface LMCProgress {
+  phase: LMCProgressPhase;
+  processed: number;
+  total: number;
+  counts: LMCProgressCounts;
+}
+
+export interface LMCBulkAddOptions {
+  attachToList?: boolean;
+  dryRun?: boolean;
+  onProgress?: (progress: LMCProgress) => void;
+}
+
+export type LMCAttribMergeStrategy =
+  | "replace"
+  | "deep"
+  | "keep-existing"
+  | "if-missing";
+
+export interface LMCAttribMergeOptions {
+  strategy?: LMCAttribMergeStrategy;
+  fields?: Record<string, LMCAttribMergeStrategy>;
+  ownedKeys?: string[];
+}
+
+export type LMCMirrorPolicy = "unsubscribe" | "remove" | "blocklist" | "delete";
+
+export interface LMCMirrorOptions {
+  policy: LMCMirrorPolicy;
+  maxRemoveRatio?: number;
+}
+
+export interface LMCSyncUsersOptions {
+  dryRun?: boolean;
+  detailed?: boolean;
+  resubscribe?: boolean;
+  mirror?: LMCMirrorOptions;
+  attribMerge?: LMCAttribMergeOptions;
+  onProgress?: (progress: LMCProgress) => void;
+}
+
+export type LMCPlanField = "email" | "name" | "attribs";
+
+export interface LMCPlanEntry {
+  email: string;
+  uid?: string;
+  subscriberId?: number;
+  fields?: LMCPlanField[];
+  listIds?: number[];
+}
+
+export interface LMCSyncPlan {
+  create: LMCPlanEntry[];
+  update: LMCPlanEntry[];
+  resubscribe: LMCPlanEntry[];
+  attach: LMCPlanEntry[];
+  detach: LMCPlanEntry[];
+  skippedBlocklisted: LMCPlanEntry[];
+  skippedUnsubscribed: LMCPlanEntry[];
+  unchanged: LMCPlanEntry[];
+}
+
+export interface LMCSubscribeResult<A extends object = LMCSubscriberAttribs> {
+  subscriber: LMCSubscriber<A> | null;
   added: boolean;
   alreadySubscribed: boolean;
   created: boolean;
+  optinSent: boolean;
 }
 
-export interface LMCUser {
+export interface LMCConfirmSubscriptionsResult {
+  subscriberId: number;
+  confirmed: number[];
+  alreadyConfirmed: number[];
+  notSubscribed: number[];
+}
+
+export interface LMCUser<A extends object = LMCSubscriberAttribs> {
   email: string;
   name?: string;
-  attribs?: LMCSubscriberAttribs;
+  attribs?: A;
   uid?: string;
 }
 
+export type LMCUserUpdate<A extends object = LMCSubscriberAttribs> = Omit<
+  Partial<LMCUser<A>>,
+  "attribs"
+> & { attribs?: Partial<A> };
+
+export type LMCSyncUserOutcome =
+  | "created"
+  | "updated"
+  | "resubscribed"
+  | "added"
+  | "unchanged"
+  | "skipped-blocklisted"
+  | "skipped-unsubscribed"
+  | "failed";
+
+export interface LMCSyncUserReport {
+  uid: string;
+  email: string;
+  subscriberId?: number;
+  outcomes: LMCSyncUserOutcome[];
+  updatedFields?: LMCPlanField[];
+  error?: { message: string; code?: number };
+}
+
+export interface LMCSyncUserError {
+  uid: string;
+  email: string;
+  message: string;
+  code?: number;
+}
+
 export interface LMCSyncUsersResult {
   blocked: number;
   unsubscribed: number;
   added: number;
   updated: number;
+  users?: LMCSyncUserReport[];
+  errors?: LMCSyncUserError[];
+  mirror?: LMCMirrorResult;
+}
+
+export interface LMCMirrorResult {
+  policy: LMCMirrorPolicy;
+  members: number;
+  candidates: LMCPlanEntry[];
+  removed: number;
+  aborted: boolean;
+}
+
+export type LMCSyncJobKind = "syncUsersToList" | "addSubscribersToList";
+
+export interface LMCSyncCheckpoint {
+  jobId: string;
+  kind: LMCSyncJobKind;
+  listId: number;
+  total: number;
+  chunkSize: number;
+  nextIndex: number;
+  // Hash of the input's uids (or emails); a different input is not resumed.
+  fingerprint: string;
+  // Running totals only, so a save stays small however large the job.
+  counts: Record<string, number>;
+  updatedAt: string;
+}
+
+export interface LMCCheckpointStore {
+  load(
+    jobId: string,
+  ): LMCSyncCheckpoint | null | Promise<LMCSyncCheckpoint | null>;
+  save(checkpoint: LMCSyncCheckpoint): void | Promise<void>;
+  clear(jobId: string): void | Promise<void>;
+}
+
+export interface LMCSyncJobProgress {
+  jobId: string;
+  chunk: number;
+  chunks: number;
+  processed: number;
+  total: number;
+  resumed: boolean;
+  counts: Record<string, number>;
+}
+
+export interface LMCSyncJobOptions {
+  store: LMCCheckpointStore;
+  chunkSize?: number;
+  onProgress?: (progress: LMCSyncJobProgress) => void;
+}
+
+export type LMCImportMode = "subscribe" | "blocklist";
+
+export type LMCImportState =
+  | "none"
+  | "importing"
+  | "stopping"
+  | "stopped"
+  | "finished"
+  | "failed";
+
+// Sent as one multipart body; a stream is read into memory first. Use a
+// file-backed Blob (Node's fs.openAsBlob) for files too large for that.
+export type LMCImportFile =
+  | Blob
+  | ArrayBuffer
+  | Uint8Array
+  | string
+  | ReadableStream<Uint8Array>;
+
+export interface LMCImportOptions {
+  mode?: LMCImportMode;
+  lists?: number[];
+  overwrite?: boolean;
+  delimiter?: string;
+  subscriptionStatus?: LMCListSubscriptionStatus;
+  filename?: string;
+}
+
+export interface LMCImportStatus {
+  name: string;
+  total: number;
+  imported: number;
+  status: LMCImportState;
+}
+
+export interface LMCWaitForImportOptions {
+  intervalMS?: number;
+  timeoutMS?: number;
+  onStatus?: (status: LMCImportStatus) => void;
+}
+
+export type LMCCampaignStatus =
+  | "draft"
+  | "scheduled"
+  | "running"
+  | "paused"
+  | "finished"
+  | "cancelled";
+
+export type LMCCampaignType = "regular" | "optin";
+
+export type LMCCampaignContentType =
+  | "richtext"
+  | "html"
+  | "markdown"
+  | "plain"
+  | "visual";
+
+export interface LMCCampaignList {
+  id: number;
+  name?: string;
+}
+
+export interface LMCCampaign {
+  id: number;
+  uuid: string;
+  name: string;
+  subject: string;
+  from_email: string;
+  status: LMCCampaignStatus;
+  type: LMCCampaignType;
+  content_type: LMCCampaignContentType;
+  body: string;
+  altbody?: string | null;
+  send_at?: string | null;
+  started_at?: string | null;
+  messenger?: string;
+  template_id?: number | null;
+  tags?: string[];
+  headers?: Array<Record<string, string>>;
+  lists: LMCCampaignList[];
+  to_send?: number;
+  sent?: number;
+  views?: number;
+  clicks?: number;
+  bounces?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface LMCCampaignInput {
+  name: string;
+  subject: string;
+  lists: number[];
+  from_email?: string;
+  type?: LMCCampaignType;
+  content_type?: LMCCampaignContentType;
+  body?: string;
+  altbody?: string | null;
+  send_at?: string | null;
+  messenger?: string;
+  template_id?: number;
+  tags?: string[];
+  headers?: Array<Record<string, string>>;
+}
+
+export interface LMCCampaignPage {
+  results: LMCCampaign[];
+  query?: string;
+  total: number;
+  per_page: number;
+  page: number;
+}
+
+export interface LMCListCampaignsOptions {
+  page?: number;
+  perPage?: number;
+  query?: string;
+  status?: LMCCampaignStatus | LMCCampaignStatus[];
+  orderBy?: "name" | "status" | "created_at" | "updated_at";
+  order?: "asc" | "desc";
+}
+
+export type LMCTransactionalContentType = "html" | "markdown" | "plain";
+
+export interface LMCTransactionalAttachment {
+  filename: string;
+  content: Blob | ArrayBuffer | Uint8Array | string;
+  contentType?: string;
+}
+
+export interface LMCTransactionalMessage {
+  subscriber: LMCSubscriberIdentifier;
+  templateId: number;
+  data?: Record<string, JsonValue>;
+  headers?: Record<string, string> | Array<Record<string, string>>;
+  contentType?: LMCTransactionalContentType;
+  fromEmail?: string;
+  subject?: string;
+  messenger?: string;
+  altbody?: string;
+  attachments?: LMCTransactionalAttachment[];
+}
+
+export type LMCTemplateType = "campaign" | "campaign_visual" | "tx";
+
+export interface LMCTemplate {
+  id: number;
+  name: string;
+  type: LMCTemplateType;
+  subject?: string;
+  body?: string;
+  body_source?: string | null;
+  is_default?: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface LMCTemplateInput {
+  name: string;
+  type: LMCTemplateType;
+  body: string;
+  subject?: string;
+  body_source?: string | null;
 }
 
 export class LMCResponse<T = unknown> implements LMCResponseData<T> {
@@ -158,12 +691,16 @@ export class LMCResponse<T = unknown> implements LMCResponseData<T> {
   code = 500;
   message = "Unknown error";
   data: T | null = null;
+  errorCode?: LMCErrorCode;
 
   constructor(response: Partial<LMCResponseData<T>> = {}) {
     this.success = response.success ?? false;
     this.code = response.code ?? 500;
     this.message = response.message ?? "Unknown error";
     this.data = response.data ?? null;
+    if (!this.success) {
+      this.errorCode = response.errorCode ?? errorCodeForStatus(this.code);
+    }
   }
 
   static ok<T>(
@@ -188,149 +725,1046 @@ export class LMCResponse<T = unknown> implements LMCResponseData<T> {
         : typeof messageOrError === "string"
           ? messageOrError
           : "Error";
+    // Without a status the failure happened locally, so the default 500 must
+    // not read as a Listmonk SERVER error.
     return new LMCResponse<T>({
       success: false,
       code: overrides.code ?? 500,
       message: overrides.message ?? (message || "Error"),
       data: overrides.data ?? null,
+      errorCode:
+        overrides.errorCode ??
+        (overrides.code === undefined ? "UNKNOWN" : undefined),
     });
   }
 
   isSuccess(): this is LMCResponse<T> & { data: T } {
     return this.success && this.data !== null;
   }
+
+  unwrap(): T | null {
+    if (!this.success) {
+      throw new LMCError(this);
+    }
+    return this.data;
+  }
 }
 
-export default class ListMonkClient {
-  private apiUrl: string;
-  private timeoutMs: number;
-  private debug: boolean;
-  private listPageSize: number;
-  private listCacheSeconds?: number;
-  private listCache?: { expiresAt: number; lists: LMCListRecord[] };
-  private authHeader?: string;
+export class LMCError<T = unknown> extends Error {
+  readonly code: number;
+  readonly errorCode: LMCErrorCode;
+  readonly data: T | null;
+  readonly response: LMCResponse<T>;
+
+  constructor(response: LMCResponse<T>) {
+    super(response.message);
+    this.name = "LMCError";
+    this.code = response.code;
+    this.errorCode = response.errorCode ?? errorCodeForStatus(response.code);
+    this.data = response.data;
+    this.response = response;
+  }
+}
 
-  constructor(config: LMCConfig) {
-    if (!config?.apiURL) {
-      throw new Error("apiURL is required");
+function errorCodeForStatus(code: number): LMCErrorCode {
+  switch (code) {
+    case 207:
+      return "PARTIAL_FAILURE";
+    case 400:
+    case 422:
+      return "VALIDATION";
+    case 401:
+    case 403:
+      return "AUTH";
+    case 404:
+      return "NOT_FOUND";
+    case 409:
+      return "CONFLICT";
+    case 408:
+    case 504:
+      return "TIMEOUT";
+    case 429:
+      return "RATE_LIMIT";
+    default:
+      return code >= 500 ? "SERVER" : "UNKNOWN";
+  }
+}
+
+const REDACTED = "[REDACTED]";
+const SECRET_KEY_PATTERN =
+  /authorization|cookie|token|secret|password|api[-_]?key|credential/i;
+const EMAIL_PATTERN =
+  /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*(@|%40)([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+const consoleLogger: LMCLogger = {
+  debug: (message, fields) => console.log(message, fields ?? ""),
+  info: (message, fields) => console.info(message, fields ?? ""),
+  warn: (message, fields) => console.warn(message, fields ?? ""),
+  error: (message, fields) => console.error(message, fields ?? ""),
+};
+
+function redactLogValue(value: unknown, redactEmails: boolean): unknown {
+  if (typeof value === "string") {
+    return redactEmails ? value.replace(EMAIL_PATTERN, "$1***$2$3") : value;
+  }
+  if (value instanceof Headers) {
+    const headers: Record<string, string> = {};
+    value.forEach((headerValue, key) => {
+      headers[key] = SECRET_KEY_PATTERN.test(key)
+        ? REDACTED
+        : (redactLogValue(headerValue, redactEmails) as string);
+    });
+    return headers;
+  }
+  if (typeof FormData !== "undefined" && value instanceof FormData) {
+    return "[FormData]";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactLogValue(item, redactEmails));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key)
+          ? REDACTED
+          : redactLogValue(item, redactEmails),
+      ]),
+    );
+  }
+  return value;
+}
+
+// Shape checks return a description of the first mismatch, or null.
+type ShapeCheck = (value: unknown, path: string) => string | null;
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+const isNumber: ShapeCheck = (value, path) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? null
+    : `${path} should be a number, got ${describeValue(value)}`;
+
+const isString: ShapeCheck = (value, path) =>
+  typeof value === "string"
+    ? null
+    : `${path} should be a string, got ${describeValue(value)}`;
+
+const isAnyObject: ShapeCheck = (value, path) =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? null
+    : `${path} should be an object, got ${describeValue(value)}`;
+
+function optional(check: ShapeCheck): ShapeCheck {
+  return (value, path) =>
+    value === undefined || value === null ? null : check(value, path);
+}
+
+function arrayOf(check: ShapeCheck): ShapeCheck {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      return `${path} should be an array, got ${describeValue(value)}`;
     }
-    if (!config?.token) {
-      throw new Error("token is required");
+    for (let i = 0; i < value.length; i += 1) {
+      const problem = check(value[i], `${path}[${i}]`);
+      if (problem) return problem;
     }
+    return null;
+  };
+}
 
-    if (!config.user) {
-      throw new Error("user is required for basic auth");
+function objectOf(fields: Record<string, ShapeCheck>): ShapeCheck {
+  return (value, path) => {
+    const problem = isAnyObject(value, path);
+    if (problem) return problem;
+    const record = value as Record<string, unknown>;
+    for (const [key, check] of Object.entries(fields)) {
+      const fieldProblem = check(record[key], `${path}.${key}`);
+      if (fieldProblem) return fieldProblem;
     }
+    return null;
+  };
+}
 
-    const normalizedUrl = config.apiURL.endsWith("/")
-      ? config.apiURL.slice(0, -1)
-      : config.apiURL;
-    this.apiUrl = normalizedUrl;
-    this.timeoutMs = config.timeoutMS ?? 15_000;
-    this.debug = config.debug ?? false;
-    this.listPageSize = config.listPageSize ?? 100;
-    this.listCacheSeconds = config.listCacheSeconds;
+function oneOf(...checks: ShapeCheck[]): ShapeCheck {
+  return (value, path) => {
+    let first: string | null = null;
+    for (const check of checks) {
+      const problem = check(value, path);
+      if (!problem) return null;
+      first ??= problem;
+    }
+    return first;
+  };
+}
 
-    this.authHeader = `Basic ${ListMonkClient.encodeBase64(
-      `${config.user}:${config.token}`,
-    )}`;
-  }
+const listShape = objectOf({ id: isNumber, name: optional(isString) });
+
+const subscriberShape = objectOf({
+  id: isNumber,
+  uuid: isString,
+  email: isString,
+  name: isString,
+  status: isString,
+  attribs: isAnyObject,
+  lists: optional(arrayOf(objectOf({ id: isNumber }))),
+});
+
+const campaignShape = objectOf({
+  id: isNumber,
+  uuid: isString,
+  name: isString,
+  subject: isString,
+  status: isString,
+  type: isString,
+  lists: optional(arrayOf(objectOf({ id: optional(isNumber) }))),
+});
+
+const templateShape = objectOf({
+  id: isNumber,
+  name: isString,
+  type: isString,
+});
+
+function pageOf(check: ShapeCheck): ShapeCheck {
+  return objectOf({ results: arrayOf(check), total: optional(isNumber) });
+}
 
-  private static encodeBase64(value: string): string {
-    const globalBtoa = (globalThis as { btoa?: (data: string) => string }).btoa;
-    if (typeof globalBtoa !== "function") {
-      throw new Error("btoa is not available in this runtime");
-    }
+// Listmonk returns the list index either bare or wrapped in a page.
+const listIndexShape = oneOf(arrayOf(listShape), pageOf(listShape));
+
+// Single-record GETs may answer with null data for a missing record; that
+// passes through to the usual not-found handling.
+const RESPONSE_SHAPES: Array<{
+  method: LMCHttpMethod;
+  pattern: RegExp;
+  shape: ShapeCheck;
+  nullable?: boolean;
+}> = [
+  { method: "GET", pattern: /^\/subscribers$/, shape: pageOf(subscriberShape) },
+  { method: "POST", pattern: /^\/subscribers$/, shape: subscriberShape },
+  {
+    method: "GET",
+    pattern: /^\/subscribers\/\d+$/,
+    shape: subscriberShape,
+    nullable: true,
+  },
+  { method: "PUT", pattern: /^\/subscribers\/\d+$/, shape: subscriberShape },
+  { method: "GET", pattern: /^\/lists$/, shape: listIndexShape },
+  { method: "POST", pattern: /^\/lists$/, shape: listShape },
+  {
+    method: "GET",
+    pattern: /^\/lists\/\d+$/,
+    shape: listShape,
+    nullable: true,
+  },
+  { method: "PUT", pattern: /^\/lists\/\d+$/, shape: listShape },
+  { method: "GET", pattern: /^\/campaigns$/, shape: pageOf(campaignShape) },
+  { method: "POST", pattern: /^\/campaigns$/, shape: campaignShape },
+  {
+    method: "GET",
+    pattern: /^\/campaigns\/\d+$/,
+    shape: campaignShape,
+    nullable: true,
+  },
+  { method: "PUT", pattern: /^\/campaigns\/\d+$/, shape: campaignShape },
+  {
+    method: "PUT",
+    pattern: /^\/campaigns\/\d+\/status$/,
+    shape: campaignShape,
+  },
+  { method: "GET", pattern: /^\/templates$/, shape: arrayOf(templateShape) },
+  { method: "POST", pattern: /^\/templates$/, shape: templateShape },
+  {
+    method: "GET",
+    pattern: /^\/templates\/\d+$/,
+    shape: templateShape,
+    nullable: true,
+  },
+  { method: "PUT", pattern: /^\/templates\/\d+$/, shape: templateShape },
+];
+
+function checkResponseShape(
+  method: LMCHttpMethod,
+  command: string,
+  data: unknown,
+): string | null {
+  const path = command.split("?")[0];
+  const route = RESPONSE_SHAPES.find(
+    (entry) => entry.method === method && entry.pattern.test(path),
+  );
+  if (!route || (data === null && route.nullable)) return null;
+  return route.shape(data, "data");
+}
 
-    return globalBtoa(value);
+class RequestLimiter {
+  private active = 0;
+  private queued = 0;
+  private requests = 0;
+  private totalWaitMS = 0;
+  private maxWaitMS = 0;
+  private waiters: Array<() => void> = [];
+  private nextSlotAt = 0;
+
+  constructor(
+    private maxConcurrent: number,
+    private requestsPerSecond: number,
+    private onWait?: (info: LMCQueueWaitInfo) => void,
+  ) {}
+
+  stats(): LMCQueueStats {
+    return {
+      active: this.active,
+      queued: this.queued,
+      requests: this.requests,
+      totalWaitMS: this.totalWaitMS,
+      maxWaitMS: this.maxWaitMS,
+    };
   }
 
-  private buildHeaders(initHeaders?: HeadersInit): Headers {
-    const headers = new Headers(initHeaders);
-    if (this.authHeader) {
-      headers.set("Authorization", this.authHeader);
-    }
-    return headers;
-  }
+  async acquire(): Promise<() => void> {
+    const startedAt = Date.now();
+    this.queued += 1;
+    const depth = this.queued;
 
-  private async safeFetch(
-    input: string,
-    init: RequestInit = {},
-  ): Promise<Response> {
-    const controller = new AbortController();
-    const id = setTimeout(() => controller.abort(), this.timeoutMs);
+    if (this.active >= this.maxConcurrent) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    } else {
+      this.active += 1;
+    }
 
-    const method = (init.method ?? "GET").toUpperCase();
-    const headers = this.buildHeaders(init.headers);
-    if (
-      method !== "GET" &&
-      !headers.has("Content-Type") &&
-      !(init.body instanceof FormData)
-    ) {
-      headers.set("Content-Type", "application/json");
+    if (this.requestsPerSecond > 0) {
+      const now = Date.now();
+      const slot = Math.max(now, this.nextSlotAt);
+      this.nextSlotAt = slot + 1000 / this.requestsPerSecond;
+      if (slot > now) {
+        await new Promise((resolve) => setTimeout(resolve, slot - now));
+      }
     }
 
-    if (this.debug) {
-      console.log("[safeFetch] Request:", input);
-      console.log("[safeFetch] Method:", method);
-      console.log("[safeFetch] Headers:", headers);
+    this.queued -= 1;
+    this.requests += 1;
+    const waitMS = Date.now() - startedAt;
+    this.totalWaitMS += waitMS;
+    this.maxWaitMS = Math.max(this.maxWaitMS, waitMS);
+    if (waitMS > 0) {
+      this.onWait?.({ waitMS, queued: depth, active: this.active });
     }
 
-    try {
-      return await fetch(input, {
-        ...init,
-        headers,
-        signal: controller.signal,
-      });
-    } catch (err: unknown) {
-      if ((err as { name?: string }).name === "AbortError") {
-        throw LMCResponse.error("Request timed out", { code: 504 });
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = this.waiters.shift();
+      if (next) {
+        // Hand the slot straight to the next waiter; active stays the same.
+        next();
+      } else {
+        this.active -= 1;
       }
-      throw LMCResponse.error(err, { code: 500 });
-    } finally {
-      clearTimeout(id);
+    };
+  }
+}
+
+const SUBSCRIBER_COLUMNS: readonly LMCSubscriberColumn[] = [
+  "id",
+  "uuid",
+  "email",
+  "name",
+  "status",
+  "created_at",
+  "updated_at",
+];
+
+// Small non-cryptographic hash (cyrb53) that identifies a job's input.
+function fingerprintOf(keys: string[]): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (const key of keys) {
+    const value = `${key}\n`;
+    for (let i = 0; i < value.length; i += 1) {
+      const ch = value.charCodeAt(i);
+      h1 = Math.imul(h1 ^ ch, 2654435761);
+      h2 = Math.imul(h2 ^ ch, 1597334677);
     }
   }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hex = (n: number) => (n >>> 0).toString(16).padStart(8, "0");
+  return `${hex(h2)}${hex(h1)}`;
+}
 
-  private async parseJson<T>(
-    res: Response,
-  ): Promise<Partial<LMCResponseData<T>>> {
-    const contentType = res.headers.get("content-type") ?? "";
+// Progress tally counter bumped by each per-user sync outcome.
+const PROGRESS_COUNTERS: Partial<
+  Record<LMCSyncUserOutcome, keyof LMCProgressCounts>
+> = {
+  created: "created",
+  updated: "updated",
+  added: "added",
+  resubscribed: "resubscribed",
+  "skipped-blocklisted": "skipped",
+  "skipped-unsubscribed": "skipped",
+  failed: "failed",
+};
+
+function csvCell(value: unknown, delimiter: string): string {
+  if (value === null || value === undefined) return "";
+  const text =
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.includes(delimiter) ||
+    /["\r\n]/.test(text) ||
+    text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
 
-    if (res.status === 204 || res.status === 205) {
-      return { data: null, message: res.statusText };
-    }
+export class LMCQuery {
+  private constructor(private sql: string) {}
 
-    const text = await res.text();
+  toString(): string {
+    return this.sql;
+  }
 
-    if (!text) {
-      return { data: null, message: res.statusText };
-    }
+  static raw(sql: string): LMCQuery {
+    return new LMCQuery(sql);
+  }
 
-    if (!contentType.toLowerCase().includes("application/json")) {
-      return { data: null, message: text };
-    }
+  static attrib(...path: string[]): LMCAttribField {
+    return { attrib: path };
+  }
 
-    try {
-      return JSON.parse(text) as Partial<LMCResponseData<T>>;
+  static eq(field: LMCQueryField, value: LMCQueryValue): LMCQuery {
+    return LMCQuery.compare(field, "=", value);
+  }
+
+  static ne(field: LMCQueryField, value: LMCQueryValue): LMCQuery {
+    return LMCQuery.compare(field, "<>", value);
+  }
+
+  static gt(field: LMCQueryField, value: number | Date): LMCQuery {
+    return LMCQuery.compare(field, ">", value);
+  }
+
+  static gte(field: LMCQueryField, value: number | Date): LMCQuery {
+    return LMCQuery.compare(field, ">=", value);
+  }
+
+  static lt(field: LMCQueryField, value: number | Date): LMCQuery {
+    return LMCQuery.compare(field, "<", value);
+  }
+
+  static lte(field: LMCQueryField, value: number | Date): LMCQuery {
+    return LMCQuery.compare(field, "<=", value);
+  }
+
+  static in(field: LMCQueryField, values: LMCQueryValue[]): LMCQuery {
+    if (values.length === 0) {
+      return new LMCQuery("FALSE");
+    }
+    // The attribute cast is picked from the values, so they must agree on it.
+    const kind = (v: LMCQueryValue) => (v instanceof Date ? "date" : typeof v);
+    if (values.some((v) => kind(v) !== kind(values[0]))) {
+      throw new Error("LMCQuery.in values must all have the same type");
+    }
+    const list = values.map((v) => LMCQuery.literal(v)).join(", ");
+    return new LMCQuery(`${LMCQuery.field(field, values[0])} IN (${list})`);
+  }
+
+  static like(field: LMCQueryField, pattern: string): LMCQuery {
+    return new LMCQuery(
+      `${LMCQuery.field(field)} LIKE ${LMCQuery.literal(pattern)}`,
+    );
+  }
+
+  static ilike(field: LMCQueryField, pattern: string): LMCQuery {
+    return new LMCQuery(
+      `${LMCQuery.field(field)} ILIKE ${LMCQuery.literal(pattern)}`,
+    );
+  }
+
+  static isNull(field: LMCQueryField): LMCQuery {
+    return new LMCQuery(`${LMCQuery.field(field)} IS NULL`);
+  }
+
+  static and(...queries: LMCQuery[]): LMCQuery {
+    return LMCQuery.join(queries, "AND", "TRUE");
+  }
+
+  static or(...queries: LMCQuery[]): LMCQuery {
+    return LMCQuery.join(queries, "OR", "FALSE");
+  }
+
+  static not(query: LMCQuery): LMCQuery {
+    return new LMCQuery(`NOT (${query.sql})`);
+  }
+
+  // Escapes LIKE wildcards so user input can be embedded in a pattern.
+  static escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+  }
+
+  private static compare(
+    field: LMCQueryField,
+    operator: string,
+    value: LMCQueryValue,
+  ): LMCQuery {
+    return new LMCQuery(
+      `${LMCQuery.field(field, value)} ${operator} ${LMCQuery.literal(value)}`,
+    );
+  }
+
+  private static join(
+    queries: LMCQuery[],
+    operator: "AND" | "OR",
+    empty: string,
+  ): LMCQuery {
+    if (queries.length === 0) {
+      return new LMCQuery(empty);
+    }
+    if (queries.length === 1) {
+      return queries[0];
+    }
+    return new LMCQuery(queries.map((q) => `(${q.sql})`).join(` ${operator} `));
+  }
+
+  private static field(field: LMCQueryField, sample?: LMCQueryValue): string {
+    if (typeof field === "string") {
+      if (!SUBSCRIBER_COLUMNS.includes(field)) {
+        throw new Error(`Unknown subscriber column: ${String(field)}`);
+      }
+      return `subscribers.${field}`;
+    }
+    const path = Array.isArray(field.attrib) ? field.attrib : [field.attrib];
+    if (path.length === 0 || path.some((key) => !key)) {
+      throw new Error("Attribute path must not be empty");
+    }
+    const keys = path.map((key) => LMCQuery.quote(key));
+    const last = keys.pop();
+    const expr = `subscribers.attribs${keys.map((k) => `->${k}`).join("")}->>${last}`;
+    // ->> yields text, so cast to compare numbers, dates and booleans by value.
+    if (typeof sample === "number") return `(${expr})::numeric`;
+    if (typeof sample === "boolean") return `(${expr})::boolean`;
+    if (sample instanceof Date) return `(${expr})::timestamptz`;
+    return expr;
+  }
+
+  private static literal(value: LMCQueryValue): string {
+    if (typeof value === "number") {
+      if (!Number.isFinite(value)) {
+        throw new Error("Query numbers must be finite");
+      }
+      return String(value);
+    }
+    if (typeof value === "boolean") {
+      return value ? "TRUE" : "FALSE";
+    }
+    if (value instanceof Date) {
+      if (Number.isNaN(value.getTime())) {
+        throw new Error("Query dates must be valid");
+      }
+      return LMCQuery.quote(value.toISOString());
+    }
+    return LMCQuery.quote(value);
+  }
+
+  private static quote(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+}
+
+export class LMCMemoryCheckpointStore implements LMCCheckpointStore {
+  private checkpoints = new Map<string, LMCSyncCheckpoint>();
+
+  load(jobId: string): LMCSyncCheckpoint | null {
+    const checkpoint = this.checkpoints.get(jobId);
+    return checkpoint ? structuredClone(checkpoint) : null;
+  }
+
+  save(checkpoint: LMCSyncCheckpoint): void {
+    this.checkpoints.set(checkpoint.jobId, structuredClone(checkpoint));
+  }
+
+  clear(jobId: string): void {
+    this.checkpoints.delete(jobId);
+  }
+}
+
+export default class ListMonkClient<A extends object = LMCSubscriberAttribs> {
+  private apiUrl: string;
+  private timeoutMs: number;
+  private debug: boolean;
+  private listPageSize: number;
+  private listCacheSeconds?: number;
+  private listCache?: { expiresAt: number; lists: LMCListRecord[] };
+  private authHeader?: string;
+  private authHeaders?: () => HeadersInit | Promise<HeadersInit>;
+  private fetchImpl: LMCFetch;
+  private retry: Required<Omit<LMCRetryOptions, "onRetry">> &
+    Pick<LMCRetryOptions, "onRetry">;
+  private limiter: RequestLimiter;
+  private middleware: LMCMiddleware[];
+  private logger?: LMCLogger;
+  private redactEmails: boolean;
+  private validateAttribs?: LMCAttribsValidator<A>;
+  private validateResponses: boolean;
+
+  constructor(config: LMCConfig<A>) {
+    if (!config?.apiURL) {
+      throw new Error("apiURL is required");
+    }
+    const auth: LMCAuth = config.auth ?? {
+      type: "basic",
+      user: config.user ?? "",
+      token: config.token ?? "",
+    };
+    if ((auth.type === "basic" || auth.type === "token") && !auth.token) {
+      throw new Error("token is required");
+    }
+    if (auth.type === "basic" && !auth.user) {
+      throw new Error("user is required for basic auth");
+    }
+    if (auth.type === "token" && !auth.user) {
+      throw new Error("user is required for token auth");
+    }
+    if (auth.type === "bearer" && !auth.token) {
+      throw new Error("token is required for bearer auth");
+    }
+    if (auth.type === "custom" && typeof auth.headers !== "function") {
+      throw new Error("headers provider is required for custom auth");
+    }
+
+    const normalizedUrl = config.apiURL.endsWith("/")
+      ? config.apiURL.slice(0, -1)
+      : config.apiURL;
+    this.apiUrl = normalizedUrl;
+    this.timeoutMs = config.timeoutMS ?? 15_000;
+    this.debug = config.debug ?? false;
+    this.listPageSize = config.listPageSize ?? 100;
+    this.listCacheSeconds = config.listCacheSeconds;
+    this.retry = ListMonkClient.resolveRetryOptions(config.retry);
+    this.limiter = new RequestLimiter(
+      config.maxConcurrent && config.maxConcurrent > 0
+        ? config.maxConcurrent
+        : Infinity,
+      config.requestsPerSecond ?? 0,
+      config.onQueueWait,
+    );
+    this.middleware = [...(config.middleware ?? [])];
+    this.logger = config.logger ?? (this.debug ? consoleLogger : undefined);
+    this.redactEmails = config.redactEmails ?? false;
+    this.validateAttribs = config.validateAttribs;
+    this.validateResponses = config.validateResponses ?? false;
+
+    this.fetchImpl = config.fetch ?? ((input, init) => fetch(input, init));
+
+    switch (auth.type) {
+      case "basic":
+        this.authHeader = `Basic ${ListMonkClient.encodeBase64(
+          `${auth.user}:${auth.token}`,
+        )}`;
+        break;
+      case "token":
+        this.authHeader = `token ${auth.user}:${auth.token}`;
+        break;
+      case "bearer":
+        this.authHeader = `Bearer ${auth.token}`;
+        break;
+      case "custom":
+        this.authHeaders = auth.headers;
+        break;
+      default:
+        break;
+    }
+
+    if (config.throwOnError) {
+      return ListMonkClient.throwingProxy(this);
+    }
+  }
+
+  // Calls made through the proxy throw LMCError on failure. Methods still run
+  // against the target, so internal calls keep branching on LMCResponse.
+  private static throwingProxy<C extends object>(client: C): C {
+    return new Proxy(client, {
+      get(target, prop, receiver) {
+        const value: unknown = Reflect.get(target, prop);
+        if (typeof value !== "function" || prop === "constructor") {
+          return value;
+        }
+        return (...args: unknown[]) => {
+          const result: unknown = value.apply(target, args);
+          if (result === target) return receiver;
+          if (ListMonkClient.isAsyncGenerator(result)) {
+            return ListMonkClient.throwingIterator(result);
+          }
+          if (!(result instanceof Promise)) return result;
+          return result.then((res: unknown) => {
+            if (res instanceof LMCResponse && !res.success) {
+              throw new LMCError(res);
+            }
+            return res;
+          });
+        };
+      },
+    });
+  }
+
+  private static isAsyncGenerator(
+    value: unknown,
+  ): value is AsyncGenerator<unknown, unknown> {
+    return (
+      typeof value === "object" &&
+      value !== null &&
+      Symbol.asyncIterator in value &&
+      typeof (value as { next?: unknown }).next === "function"
+    );
+  }
+
+  // Generators report failures as their return value; under throwOnError the
+  // wrapper throws instead and closes the underlying generator.
+  private static async *throwingIterator(
+    iterator: AsyncGenerator<unknown, unknown>,
+  ): AsyncGenerator<unknown, unknown> {
+    let done = false;
+    try {
+      for (;;) {
+        const step = await iterator.next();
+        done = step.done === true;
+        if (step.value instanceof LMCResponse && !step.value.success) {
+          throw new LMCError(step.value);
+        }
+        if (step.done) return step.value;
+        yield step.value;
+      }
+    } finally {
+      if (!done) await iterator.return(undefined);
+    }
+  }
+
+  private static resolveRetryOptions(
+    retry: LMCConfig["retry"],
+  ): ListMonkClient["retry"] {
+    const options = retry === true ? {} : retry || { maxAttempts: 1 };
+    return {
+      maxAttempts: Math.max(1, Math.floor(options.maxAttempts ?? 3)),
+      baseDelayMS: options.baseDelayMS ?? 250,
+      maxDelayMS: options.maxDelayMS ?? 10_000,
+      jitter: options.jitter ?? true,
+      retryOnStatus: options.retryOnStatus ?? [408, 429, 500, 502, 503, 504],
+      // POST is not idempotent (creates subscribers, sends mail), so it is
+      // only retried when explicitly listed.
+      retryMethods: options.retryMethods ?? ["GET", "PUT", "DELETE"],
+      respectRetryAfter: options.respectRetryAfter ?? true,
+      onRetry: options.onRetry,
+    };
+  }
+
+  // Pending subscriptions on double opt-in lists wait for the opt-in mail.
+  private static awaitsOptin(
+    subscriber: LMCSubscriber<object>,
+    listId: number,
+  ): boolean {
+    const membership = subscriber.lists?.find((l) => l.id === listId) as
+      | LMCListRecord
+      | undefined;
+    return (
+      membership?.subscription_status === "unconfirmed" &&
+      membership.optin !== "single"
+    );
+  }
+
+  private static attribUid(attribs: object | undefined): string | undefined {
+    return attribs && "uid" in attribs && typeof attribs.uid === "string"
+      ? attribs.uid
+      : undefined;
+  }
+
+  private static sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  private static encodeBase64(value: string): string {
+    const globalBtoa = (globalThis as { btoa?: (data: string) => string }).btoa;
+    if (typeof globalBtoa !== "function") {
+      throw new Error("btoa is not available in this runtime");
+    }
+
+    return globalBtoa(value);
+  }
+
+  private async buildHeaders(initHeaders?: HeadersInit): Promise<Headers> {
+    const headers = new Headers(initHeaders);
+    if (this.authHeader) {
+      headers.set("Authorization", this.authHeader);
+    }
+    if (this.authHeaders) {
+      new Headers(await this.authHeaders()).forEach((value, key) => {
+        headers.set(key, value);
+      });
+    }
+    return headers;
+  }
+
+  // The limiter slot is held until `read` has consumed the body, so the
+  // concurrency limit covers downloads as well as round trips.
+  private async safeFetch<R>(
+    input: string,
+    init: RequestInit,
+    read: (res: Response) => Promise<R>,
+  ): Promise<R> {
+    const method = (init.method ?? "GET").toUpperCase() as LMCHttpMethod;
+    const { maxAttempts, retryMethods, retryOnStatus } = this.retry;
+    const canRetry = retryMethods.includes(method);
+
+    for (let attempt = 1; ; attempt += 1) {
+      const last = !canRetry || attempt >= maxAttempts;
+      let res: Response;
+      const release = await this.limiter.acquire();
+      try {
+        res = await this.fetchOnce(input, init, attempt);
+      } catch (err: unknown) {
+        release();
+        // Only transport failures are retried; failing hooks or credential
+        // providers would fail again.
+        const transient =
+          err instanceof LMCResponse &&
+          (err.errorCode === "NETWORK" || err.errorCode === "TIMEOUT");
+        if (last || !transient) throw err;
+        await this.waitForRetry(attempt, method, input, { error: err.message });
+        continue;
+      }
+
+      if (last || !retryOnStatus.includes(res.status)) {
+        try {
+          return await read(res);
+        } finally {
+          release();
+        }
+      }
+      await res.body?.cancel().catch(() => undefined);
+      release();
+      await this.waitForRetry(attempt, method, input, {
+        status: res.status,
+        retryAfter: res.headers.get("retry-after"),
+      });
+    }
+  }
+
+  private async waitForRetry(
+    attempt: number,
+    method: LMCHttpMethod,
+    url: string,
+    context: { status?: number; error?: string; retryAfter?: string | null },
+  ): Promise<void> {
+    const { baseDelayMS, maxDelayMS, jitter, respectRetryAfter, maxAttempts } =
+      this.retry;
+
+    let delayMS = Math.min(maxDelayMS, baseDelayMS * 2 ** (attempt - 1));
+    if (jitter) {
+      delayMS = delayMS / 2 + Math.random() * (delayMS / 2);
+    }
+    if (respectRetryAfter && context.retryAfter) {
+      const seconds = Number(context.retryAfter);
+      const retryAfterMS = Number.isFinite(seconds)
+        ? seconds * 1000
+        : Date.parse(context.retryAfter) - Date.now();
+      if (Number.isFinite(retryAfterMS)) {
+        delayMS = Math.min(maxDelayMS, Math.max(0, retryAfterMS));
+      }
+    }
+    delayMS = Math.round(delayMS);
+
+    this.log("warn", "Retrying request", {
+      method,
+      url,
+      delayMS,
+      attempt: attempt + 1,
+      maxAttempts,
+      ...context,
+    });
+    this.notify("onRetry", this.retry.onRetry, {
+      attempt,
+      maxAttempts,
+      method,
+      url,
+      delayMS,
+      ...(context.status !== undefined ? { status: context.status } : {}),
+      ...(context.error !== undefined ? { error: context.error } : {}),
+    });
+
+    if (delayMS > 0) {
+      await ListMonkClient.sleep(delayMS);
+    }
+  }
+
+  private async fetchOnce(
+    input: string,
+    init: RequestInit,
+    attempt: number,
+  ): Promise<Response> {
+    const method = (init.method ?? "GET").toUpperCase() as LMCHttpMethod;
+    let headers: Headers;
+    try {
+      headers = await this.buildHeaders(init.headers);
+    } catch (err: unknown) {
+      // A local credential failure: not an HTTP 401 and not retryable.
+      throw LMCResponse.error(err, { errorCode: "AUTH" });
+    }
+    if (
+      method !== "GET" &&
+      !headers.has("Content-Type") &&
+      !(init.body instanceof FormData)
+    ) {
+      headers.set("Content-Type", "application/json");
+    }
+
+    const ctx: LMCRequestContext = {
+      method,
+      url: input,
+      headers,
+      body: init.body,
+      attempt,
+      startedAt: Date.now(),
+    };
+    // Middleware runs in registration order before the request and in
+    // reverse order afterwards, so the first one registered wraps the rest.
+    const after = [...this.middleware].reverse();
+
+    try {
+      for (const mw of this.middleware) {
+        await mw.beforeRequest?.(ctx);
+      }
+    } catch (err: unknown) {
+      throw err instanceof LMCResponse ? err : LMCResponse.error(err);
+    }
+
+    this.log("debug", "Sending request", {
+      method,
+      url: ctx.url,
+      headers: ctx.headers,
+      attempt,
+    });
+
+    const controller = new AbortController();
+    const id = setTimeout(() => controller.abort(), this.timeoutMs);
+    let res: Response;
+    try {
+      res = await this.fetchImpl(ctx.url, {
+        ...init,
+        headers: ctx.headers,
+        body: ctx.body,
+        signal: controller.signal,
+      });
+    } catch (err: unknown) {
+      const error =
+        (err as { name?: string }).name === "AbortError"
+          ? LMCResponse.error("Request timed out", {
+              code: 504,
+              errorCode: "TIMEOUT",
+            })
+          : LMCResponse.error(err, { code: 500, errorCode: "NETWORK" });
+      for (const mw of after) {
+        await mw.onError?.(ctx, error);
+      }
+      throw error;
+    } finally {
+      clearTimeout(id);
+    }
+
+    try {
+      for (const mw of after) {
+        const replaced = await mw.afterResponse?.(ctx, res);
+        if (replaced instanceof Response) {
+          res = replaced;
+        }
+      }
+    } catch (err: unknown) {
+      const error = err instanceof LMCResponse ? err : LMCResponse.error(err);
+      for (const mw of after) {
+        await mw.onError?.(ctx, error);
+      }
+      throw error;
+    }
+    return res;
+  }
+
+  private log(level: LMCLogLevel, message: string, fields?: LMCLogFields) {
+    if (!this.logger || (level === "debug" && !this.debug)) {
+      return;
+    }
+    const redacted = fields
+      ? (redactLogValue(fields, this.redactEmails) as LMCLogFields)
+      : undefined;
+    try {
+      this.logger[level](message, redacted);
+    } catch {
+      // A failing logger must never break the request it describes.
+    }
+  }
+
+  // User callbacks get the same treatment: a throwing one is logged and the
+  // work it reports on carries on.
+  private notify<T>(
+    name: string,
+    callback: ((value: T) => void) | undefined,
+    value: T,
+  ): void {
+    try {
+      callback?.(value);
+    } catch (err: unknown) {
+      this.log("warn", `${name} callback failed`, {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  private async parseJson<T>(
+    res: Response,
+  ): Promise<Partial<LMCResponseData<T>>> {
+    const contentType = res.headers.get("content-type") ?? "";
+
+    if (res.status === 204 || res.status === 205) {
+      return { data: null, message: res.statusText };
+    }
+
+    const text = await res.text();
+
+    if (!text) {
+      return { data: null, message: res.statusText };
+    }
+
+    if (!contentType.toLowerCase().includes("application/json")) {
+      return { data: null, message: text };
+    }
+
+    try {
+      return JSON.parse(text) as Partial<LMCResponseData<T>>;
     } catch (err: unknown) {
       const parseMessage =
         err instanceof Error ? err.message : "Failed to parse JSON response";
       throw LMCResponse.error("Failed to parse JSON response", {
         code: res.status,
         message: parseMessage,
+        errorCode: "PARSE",
       });
     }
   }
 
   private async request<T>(
-    method: "GET" | "POST" | "PUT" | "DELETE",
+    method: LMCHttpMethod,
     command: string,
-    body?: Record<string, unknown>,
+    body?: Record<string, unknown> | FormData,
   ): Promise<LMCResponse<T>> {
     const url = `${this.apiUrl}${command}`;
     const init: RequestInit = { method };
-    if (body !== undefined) {
+    if (body instanceof FormData) {
+      init.body = body;
+    } else if (body !== undefined) {
       try {
         init.body = JSON.stringify(body);
       } catch (err) {
@@ -338,18 +1772,18 @@ export default class ListMonkClient {
       }
     }
 
-    if (this.debug) {
-      console.log(
-        `Making ${method} request to: ${url} (timeout: ${this.timeoutMs}ms)`,
-      );
-      if (body !== undefined) {
-        console.log("Request body:", init.body);
-      }
-    }
+    this.log("debug", "Making request", {
+      method,
+      url,
+      timeoutMS: this.timeoutMs,
+      ...(body !== undefined ? { body } : {}),
+    });
 
     try {
-      const res = await this.safeFetch(url, init);
-      const payload = await this.parseJson<T>(res);
+      const { res, payload } = await this.safeFetch(url, init, async (res) => ({
+        res,
+        payload: await this.parseJson<T>(res),
+      }));
       const data =
         payload.data !== undefined
           ? (payload.data as T | null)
@@ -357,6 +1791,20 @@ export default class ListMonkClient {
       const message = payload.message ?? res.statusText;
 
       if (res.ok) {
+        const problem = this.validateResponses
+          ? checkResponseShape(method, command, data)
+          : null;
+        if (problem) {
+          this.log("warn", "Unexpected response shape", {
+            method,
+            url,
+            problem,
+          });
+          return LMCResponse.error(
+            `Unexpected response from ${method} ${command.split("?")[0]}: ${problem}`,
+            { code: 502, data, errorCode: "PARSE" },
+          );
+        }
         return LMCResponse.ok(data, {
           code: res.status,
           message,
@@ -373,6 +1821,15 @@ export default class ListMonkClient {
     }
   }
 
+  use(middleware: LMCMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  getQueueStats(): LMCQueueStats {
+    return this.limiter.stats();
+  }
+
   async get<T>(command: string): Promise<LMCResponse<T>> {
     return this.request<T>("GET", command);
   }
@@ -411,48 +1868,50 @@ export default class ListMonkClient {
     return this.delete<boolean>(`/subscribers?${params.toString()}`);
   }
 
-  async getSubscriberById(id: number): Promise<LMCResponse<LMCSubscriber>> {
-    return this.findSubscriber({ id });
+  async getSubscriberById(id: number): Promise<LMCResponse<LMCSubscriber<A>>> {
+    return this.getSubscriber({ id });
   }
 
-  async getSubscriberByUuid(uuid: string): Promise<LMCResponse<LMCSubscriber>> {
-    return this.findSubscriber({ uuid });
+  async getSubscriberByUuid(
+    uuid: string,
+  ): Promise<LMCResponse<LMCSubscriber<A>>> {
+    return this.getSubscriber({ uuid });
   }
 
   async getSubscriberByEmail(
     email: string,
-  ): Promise<LMCResponse<LMCSubscriber>> {
-    return this.findSubscriber({ email });
+  ): Promise<LMCResponse<LMCSubscriber<A>>> {
+    return this.getSubscriber({ email });
   }
 
-  async getSubscriber(identifier: {
-    id?: number;
-    uuid?: string;
-    email?: string;
-  }): Promise<LMCResponse<LMCSubscriber>> {
-    return this.findSubscriber(identifier);
+  async getSubscriber(
+    identifier: LMCSubscriberIdentifier,
+  ): Promise<LMCResponse<LMCSubscriber<A>>> {
+    return (await this.findSubscriber(identifier)) as LMCResponse<
+      LMCSubscriber<A>
+    >;
   }
 
-  async blockSubscriber(id: number): Promise<LMCResponse<LMCSubscriber>> {
+  async blockSubscriber(id: number): Promise<LMCResponse<LMCSubscriber<A>>> {
     if (!Number.isFinite(id)) {
       return LMCResponse.error("id must be a number", { code: 400 });
     }
-    return this.put<LMCSubscriber>(`/subscribers/${id}`, {
+    return this.put<LMCSubscriber<A>>(`/subscribers/${id}`, {
       status: "blocklisted",
     });
   }
 
-  async unblockSubscriber(id: number): Promise<LMCResponse<LMCSubscriber>> {
+  async unblockSubscriber(id: number): Promise<LMCResponse<LMCSubscriber<A>>> {
     if (!Number.isFinite(id)) {
       return LMCResponse.error("id must be a number", { code: 400 });
     }
-    return this.put<LMCSubscriber>(`/subscribers/${id}`, {
+    return this.put<LMCSubscriber<A>>(`/subscribers/${id}`, {
       status: "enabled",
     });
   }
 
   async unsubscribe(
-    identifier: { id?: number; uuid?: string; email?: string },
+    identifier: LMCSubscriberIdentifier,
     lists?: number | number[],
   ): Promise<LMCResponse<LMCUnsubscribeResult>> {
     const subscriber = await this.findSubscriber(identifier);
@@ -535,12 +1994,22 @@ export default class ListMonkClient {
   }
 
   async setSubscriptions(
-    identifier: { id?: number; uuid?: string; email?: string },
+    identifier: LMCSubscriberIdentifier,
     listIds: number[],
-    options: LMCSetSubscriptionsOptions = {},
-  ): Promise<LMCResponse<LMCSetSubscriptionsResult>> {
-    const normalized = Array.from(
-      new Set(listIds.map((id) => Number(id))),
+    options: LMCSetSubscriptionsOptions & { dryRun: true },
+  ): Promise<LMCResponse<LMCSyncPlan>>;
+  async setSubscriptions(
+    identifier: LMCSubscriberIdentifier,
+    listIds: number[],
+    options?: LMCSetSubscriptionsOptions,
+  ): Promise<LMCResponse<LMCSetSubscriptionsResult>>;
+  async setSubscriptions(
+    identifier: LMCSubscriberIdentifier,
+    listIds: number[],
+    options: LMCSetSubscriptionsOptions = {},
+  ): Promise<LMCResponse<LMCSetSubscriptionsResult | LMCSyncPlan>> {
+    const normalized = Array.from(
+      new Set(listIds.map((id) => Number(id))),
     ).filter((id) => Number.isFinite(id));
 
     if (listIds.length !== normalized.length) {
@@ -576,6 +2045,35 @@ export default class ListMonkClient {
         )
       : [];
 
+    if (options.dryRun) {
+      const plan = ListMonkClient.emptyPlan();
+      const entry = {
+        email: subscriber.data.email,
+        subscriberId: subscriber.data.id,
+      };
+      if (subscriber.data.status === "blocklisted") {
+        plan.skippedBlocklisted.push(entry);
+        return LMCResponse.ok(plan, { message: "Dry run" });
+      }
+      const resubscribe = listsToAdd.filter((id) =>
+        currentListIds.includes(id),
+      );
+      const attach = listsToAdd.filter((id) => !currentListIds.includes(id));
+      if (resubscribe.length > 0) {
+        plan.resubscribe.push({ ...entry, listIds: resubscribe });
+      }
+      if (attach.length > 0) {
+        plan.attach.push({ ...entry, listIds: attach });
+      }
+      if (listsToRemove.length > 0) {
+        plan.detach.push({ ...entry, listIds: listsToRemove });
+      }
+      if (listsToAdd.length === 0 && listsToRemove.length === 0) {
+        plan.unchanged.push({ ...entry, listIds: normalized });
+      }
+      return LMCResponse.ok(plan, { message: "Dry run" });
+    }
+
     if (listsToAdd.length > 0) {
       const addRes = await this.put(`/subscribers/lists`, {
         ids: [subscriber.data.id],
@@ -671,15 +2169,108 @@ export default class ListMonkClient {
     return LMCResponse.ok(results, { code: res.code, message: res.message });
   }
 
+  async getList(id: number): Promise<LMCResponse<LMCListRecord>> {
+    if (!Number.isFinite(id)) {
+      return LMCResponse.error("id must be a number", { code: 400 });
+    }
+    const res = await this.get<LMCListRecord>(`/lists/${id}`);
+    if (res.success && !res.data) {
+      return LMCResponse.error("List not found", { code: 404 });
+    }
+    return res;
+  }
+
+  async createList(input: LMCListInput): Promise<LMCResponse<LMCListRecord>> {
+    const invalid = this.validateListInput(input);
+    if (invalid) {
+      return invalid;
+    }
+
+    const res = await this.post<LMCListRecord>("/lists", {
+      ...input,
+      name: input.name.trim(),
+      type: input.type ?? "private",
+      optin: input.optin ?? "single",
+      tags: input.tags ?? [],
+    });
+    if (res.success) {
+      this.invalidateListCache();
+    }
+    return res;
+  }
+
+  async updateList(
+    id: number,
+    updates: Partial<LMCListInput>,
+  ): Promise<LMCResponse<LMCListRecord>> {
+    if (!updates || Object.keys(updates).length === 0) {
+      return LMCResponse.error("No updates provided", { code: 400 });
+    }
+
+    const existing = await this.getList(id);
+    if (!existing.success || !existing.data) {
+      return existing;
+    }
+
+    const current = existing.data;
+    const next: LMCListInput = {
+      name: current.name ?? "",
+      ...(current.type === "public" || current.type === "private"
+        ? { type: current.type }
+        : {}),
+      ...(current.optin ? { optin: current.optin } : {}),
+      tags: current.tags ?? [],
+      ...(current.description !== undefined
+        ? { description: current.description }
+        : {}),
+      ...updates,
+    };
+    const invalid = this.validateListInput(next);
+    if (invalid) {
+      return invalid;
+    }
+
+    const res = await this.put<LMCListRecord>(`/lists/${id}`, { ...next });
+    if (res.success) {
+      this.invalidateListCache();
+    }
+    return res;
+  }
+
+  async deleteList(id: number): Promise<LMCResponse<boolean>> {
+    if (!Number.isFinite(id)) {
+      return LMCResponse.error("id must be a number", { code: 400 });
+    }
+    const res = await this.delete<boolean>(`/lists/${id}`);
+    if (res.success) {
+      this.invalidateListCache();
+    }
+    return res;
+  }
+
   async subscribe(
     listId: number,
     input: {
       email: string;
       name?: string;
-      attribs?: LMCSubscriberAttribs;
+      attribs?: A;
     },
     options: LMCSubscribeOptions = {},
-  ): Promise<LMCResponse<LMCSubscribeResult>> {
+  ): Promise<LMCResponse<LMCSubscribeResult<A>>> {
+    return this.subscribeToList(listId, input, options);
+  }
+
+  // subscribe() for the bulk helpers, whose attribs carry an added uid and so
+  // are not necessarily an A.
+  private async subscribeToList(
+    listId: number,
+    input: {
+      email: string;
+      name?: string;
+      attribs?: object;
+    },
+    options: LMCSubscribeOptions,
+  ): Promise<LMCResponse<LMCSubscribeResult<A>>> {
     if (!Number.isFinite(listId)) {
       return LMCResponse.error("Failed to subscribe: listId must be a number", {
         code: 400,
@@ -696,7 +2287,7 @@ export default class ListMonkClient {
     const attribs = input.attribs ?? {};
     const lists: number[] = [listId];
 
-    const existing = await this.findSubscriber({ email });
+    const existing = await this.getSubscriber({ email });
     if (existing.success && existing.data) {
       const subscriber = existing.data;
       const membership = subscriber.lists?.find((l) => l.id === listId);
@@ -718,21 +2309,28 @@ export default class ListMonkClient {
             added: false,
             alreadySubscribed: true,
             created: false,
+            optinSent: false,
           },
           { code: existing.code, message: "Already subscribed" },
         );
       }
 
+      const status =
+        options.preconfirm === undefined
+          ? {}
+          : { status: options.preconfirm ? "confirmed" : "unconfirmed" };
       const attachRes =
         membershipStatus === "unsubscribed"
           ? await this.put(`/subscribers/lists`, {
               ids: [subscriber.id],
               action: "add",
               target_list_ids: [listId],
+              ...status,
             })
           : await this.put(`/subscribers/lists/${listId}`, {
               ids: [subscriber.id],
               action: "add",
+              ...status,
             });
       if (!attachRes.success) {
         return LMCResponse.error(`Failed to subscribe: ${attachRes.message}`, {
@@ -740,18 +2338,25 @@ export default class ListMonkClient {
         });
       }
 
-      const refreshed = await this.get<LMCSubscriber>(
+      const refreshed = await this.get<LMCSubscriber<A>>(
         `/subscribers/${subscriber.id}`,
       );
       const updatedSubscriber =
         refreshed.success && refreshed.data ? refreshed.data : subscriber;
 
+      // Listmonk only mails opt-ins on create, so send one for re-attached
+      // members that still need to confirm.
+      const optinSent =
+        ListMonkClient.awaitsOptin(updatedSubscriber, listId) &&
+        (await this.sendOptinConfirmation({ id: subscriber.id })).success;
+
       return LMCResponse.ok(
         {
           subscriber: updatedSubscriber,
           added: true,
           alreadySubscribed: false,
           created: false,
+          optinSent,
         },
         {
           code: refreshed.success ? refreshed.code : attachRes.code,
@@ -766,6 +2371,13 @@ export default class ListMonkClient {
       });
     }
 
+    const invalid = this.checkAttribs(attribs);
+    if (invalid) {
+      return LMCResponse.error(`Failed to subscribe: ${invalid}`, {
+        code: 400,
+      });
+    }
+
     const body = {
       email,
       name,
@@ -775,7 +2387,7 @@ export default class ListMonkClient {
       ...(options.status ? { status: options.status } : {}),
     };
 
-    const createRes = await this.post<LMCSubscriber>("/subscribers", body);
+    const createRes = await this.post<LMCSubscriber<A>>("/subscribers", body);
     if (!createRes.success || !createRes.data) {
       return LMCResponse.error(`Failed to subscribe: ${createRes.message}`, {
         code: createRes.code,
@@ -788,16 +2400,120 @@ export default class ListMonkClient {
         added: true,
         alreadySubscribed: false,
         created: true,
+        optinSent: ListMonkClient.awaitsOptin(createRes.data, listId),
       },
       { code: createRes.code, message: "Successfully subscribed" },
     );
   }
 
+  async sendOptinConfirmation(
+    identifier: LMCSubscriberIdentifier,
+  ): Promise<LMCResponse<boolean>> {
+    let id = identifier.id;
+    if (id === undefined) {
+      const subscriber = await this.findSubscriber(identifier);
+      if (!subscriber.success || !subscriber.data) {
+        return subscriber as unknown as LMCResponse<boolean>;
+      }
+      id = subscriber.data.id;
+    }
+    if (!Number.isFinite(id)) {
+      return LMCResponse.error("id must be a number", { code: 400 });
+    }
+    return this.post<boolean>(`/subscribers/${id}/optin`);
+  }
+
+  async confirmSubscriptions(
+    identifier: LMCSubscriberIdentifier,
+    listIds: number[],
+  ): Promise<LMCResponse<LMCConfirmSubscriptionsResult>> {
+    if (listIds.length === 0 || !listIds.every((id) => Number.isFinite(id))) {
+      return LMCResponse.error("listIds must be a non-empty array of numbers", {
+        code: 400,
+      });
+    }
+    const subscriber = await this.findSubscriber(identifier);
+    if (!subscriber.success || !subscriber.data) {
+      return subscriber as unknown as LMCResponse<LMCConfirmSubscriptionsResult>;
+    }
+    if (subscriber.data.status === "blocklisted") {
+      return LMCResponse.error("subscriber is blocklisted", { code: 400 });
+    }
+
+    const result: LMCConfirmSubscriptionsResult = {
+      subscriberId: subscriber.data.id,
+      confirmed: [],
+      alreadyConfirmed: [],
+      notSubscribed: [],
+    };
+    // Only pending subscriptions are confirmed; unsubscribed members stay out.
+    Array.from(new Set(listIds)).forEach((listId) => {
+      const status = subscriber.data?.lists?.find((l) => l.id === listId)
+        ?.subscription_status as string | undefined;
+      if (status === "unconfirmed") result.confirmed.push(listId);
+      else if (status === "confirmed") result.alreadyConfirmed.push(listId);
+      else result.notSubscribed.push(listId);
+    });
+
+    if (result.confirmed.length > 0) {
+      const res = await this.put(`/subscribers/lists`, {
+        ids: [result.subscriberId],
+        action: "add",
+        target_list_ids: result.confirmed,
+        status: "confirmed",
+      });
+      if (!res.success) {
+        return res as unknown as LMCResponse<LMCConfirmSubscriptionsResult>;
+      }
+    }
+    return LMCResponse.ok(result);
+  }
+
+  async listUnconfirmedMembers(
+    listIds?: number | number[],
+    pagination: { page?: number; perPage?: number } = {},
+  ): Promise<LMCResponse<LMCSubscriberPage<A>>> {
+    let ids =
+      listIds === undefined
+        ? undefined
+        : Array.isArray(listIds)
+          ? listIds
+          : [listIds];
+    if (ids === undefined) {
+      const lists = await this.listAllLists();
+      if (!lists.success || !lists.data) {
+        return lists as unknown as LMCResponse<LMCSubscriberPage<A>>;
+      }
+      ids = lists.data.filter((l) => l.optin === "double").map((l) => l.id);
+    }
+    if (!ids.every((id) => Number.isFinite(id))) {
+      return LMCResponse.error("listIds must be a number or array of numbers", {
+        code: 400,
+      });
+    }
+    const perPage = pagination.perPage ?? this.listPageSize;
+    if (ids.length === 0) {
+      return LMCResponse.ok(
+        { results: [], total: 0, per_page: perPage, page: 1 },
+        { message: "No double opt-in lists" },
+      );
+    }
+
+    const params = new URLSearchParams();
+    ids.forEach((id) => params.append("list_id", String(id)));
+    params.set("subscription_status", "unconfirmed");
+    if (pagination.page !== undefined) {
+      params.set("page", String(pagination.page));
+    }
+    params.set("per_page", String(perPage));
+    return this.get<LMCSubscriberPage<A>>(`/subscribers?${params.toString()}`);
+  }
+
   async listMembersByStatus(
     listId: number,
     status: LMCListMemberStatus,
     pagination: { page?: number; perPage?: number } = {},
-  ): Promise<LMCResponse<LMCSubscriberPage>> {
+  ): Promise<LMCResponse<LMCSubscriberPage<A>>> {
     const params = new URLSearchParams();
     params.set("list_id", String(listId));
 
@@ -818,14 +2534,302 @@ export default class ListMonkClient {
     const queryString = params.toString();
     const path = queryString ? `/subscribers?${queryString}` : "/subscribers";
 
-    return this.get<LMCSubscriberPage>(path);
+    return this.get<LMCSubscriberPage<A>>(path);
+  }
+
+  async searchSubscribers(
+    query: LMCQuery,
+    options: LMCSearchOptions = {},
+  ): Promise<LMCResponse<LMCSubscriberPage<A>>> {
+    const listIds =
+      options.listIds === undefined
+        ? []
+        : Array.isArray(options.listIds)
+          ? options.listIds
+          : [options.listIds];
+    if (!listIds.every((id) => Number.isFinite(id))) {
+      return LMCResponse.error("listIds must be a number or array of numbers", {
+        code: 400,
+      });
+    }
+
+    const params = new URLSearchParams();
+    listIds.forEach((id) => params.append("list_id", String(id)));
+    params.set("query", query.toString());
+    if (options.page !== undefined) {
+      params.set("page", String(options.page));
+    }
+    params.set("per_page", String(options.perPage ?? this.listPageSize));
+
+    return this.get<LMCSubscriberPage<A>>(`/subscribers?${params.toString()}`);
+  }
+
+  async *iterateSubscribers(
+    options: LMCIterateSubscribersOptions<A> = {},
+  ): AsyncGenerator<
+    LMCSubscriber<A>,
+    LMCResponse<LMCSubscriberPage<A>> | null
+  > {
+    const listIds =
+      options.listIds === undefined
+        ? []
+        : Array.isArray(options.listIds)
+          ? options.listIds
+          : [options.listIds];
+    const perPage = options.perPage ?? this.listPageSize;
+
+    const fail = (res: LMCResponse<LMCSubscriberPage<A>>) => {
+      this.notify("onError", options.onError, res);
+      return res;
+    };
+
+    if (!listIds.every((id) => Number.isFinite(id))) {
+      return fail(
+        LMCResponse.error("listIds must be a number or array of numbers", {
+          code: 400,
+        }),
+      );
+    }
+    if (!Number.isFinite(perPage) || perPage < 1) {
+      return fail(
+        LMCResponse.error("perPage must be a positive number", { code: 400 }),
+      );
+    }
+
+    let page = 1;
+    let seen = 0;
+    for (;;) {
+      const params = new URLSearchParams();
+      listIds.forEach((id) => params.append("list_id", String(id)));
+      if (options.subscriptionStatus) {
+        params.set("subscription_status", options.subscriptionStatus);
+      }
+      if (options.query) {
+        params.set("query", String(options.query));
+      }
+      params.set("page", String(page));
+      params.set("per_page", String(perPage));
+
+      const res = await this.get<LMCSubscriberPage<A>>(
+        `/subscribers?${params.toString()}`,
+      );
+      if (!res.success || !res.data || !Array.isArray(res.data.results)) {
+        return fail(
+          res.success
+            ? LMCResponse.error(
+                "Unexpected response while fetching subscribers",
+                { code: res.code },
+              )
+            : res,
+        );
+      }
+
+      const { results, total } = res.data;
+      for (const subscriber of results) {
+        yield subscriber;
+      }
+      seen += results.length;
+
+      // Servers may cap per_page, so a short page only ends the iteration
+      // when there is no total to go by.
+      const served =
+        Number.isFinite(res.data.per_page) && res.data.per_page > 0
+          ? Math.min(res.data.per_page, perPage)
+          : perPage;
+      if (
+        results.length === 0 ||
+        (Number.isFinite(total) ? seen >= total : results.length < served)
+      ) {
+        return null;
+      }
+      page += 1;
+    }
+  }
+
+  async *iterateListMembers(
+    listId: number,
+    status: LMCListMemberStatus,
+    options: Omit<
+      LMCIterateSubscribersOptions<A>,
+      "listIds" | "subscriptionStatus"
+    > = {},
+  ): AsyncGenerator<
+    LMCSubscriber<A>,
+    LMCResponse<LMCSubscriberPage<A>> | null
+  > {
+    if (!Number.isFinite(listId)) {
+      const res = LMCResponse.error<LMCSubscriberPage<A>>(
+        "listId must be a number",
+        { code: 400 },
+      );
+      this.notify("onError", options.onError, res);
+      return res;
+    }
+
+    const translated = this.translateStatus(status);
+    const query = [translated.query, options.query?.toString()]
+      .filter((q): q is string => Boolean(q))
+      .map((q) => `(${q})`)
+      .join(" AND ");
+
+    return yield* this.iterateSubscribers({
+      ...options,
+      listIds: [listId],
+      ...(translated.subscriptionStatus
+        ? { subscriptionStatus: translated.subscriptionStatus }
+        : {}),
+      ...(query ? { query } : {}),
+    });
+  }
+
+  async *exportSubscribers(
+    options: LMCExportOptions<A> = {},
+  ): AsyncGenerator<string, LMCResponse<LMCSubscriberPage<A>> | null> {
+    const {
+      format = "csv",
+      listId,
+      status,
+      delimiter = ",",
+      columns: requested,
+      ...rest
+    } = options;
+
+    const fail = (message: string) => {
+      const res = LMCResponse.error<LMCSubscriberPage<A>>(message, {
+        code: 400,
+      });
+      this.notify("onError", options.onError, res);
+      return res;
+    };
+    if (format !== "csv" && format !== "ndjson") {
+      return fail("format must be csv or ndjson");
+    }
+    if (status !== undefined && listId === undefined) {
+      return fail("status requires a listId");
+    }
+    if (requested?.length === 0) {
+      return fail("columns must not be empty");
+    }
+    if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+      return fail("delimiter must be a single character");
+    }
+
+    const members =
+      status !== undefined && listId !== undefined
+        ? this.iterateListMembers(listId, status, rest)
+        : this.iterateSubscribers({
+            ...rest,
+            ...(listId !== undefined ? { listIds: [listId] } : {}),
+          });
+
+    const columns: LMCExportColumn[] = requested ?? [
+      ...SUBSCRIBER_COLUMNS,
+      "attribs",
+      ...(listId !== undefined ? (["subscription_status"] as const) : []),
+    ];
+    // CSV needs its header before the first row, so by default attribs stay
+    // one JSON column. NDJSON has no header and flattens each row's own keys.
+    const flatten = !requested && format === "ndjson";
+
+    const line = (subscriber: LMCSubscriber<A>) => {
+      const entries = columns.flatMap(
+        (column): Array<[string, unknown]> =>
+          flatten && column === "attribs"
+            ? Object.entries(subscriber.attribs ?? {}).map(([key, value]) => [
+                `attribs.${key}`,
+                value,
+              ])
+            : [[column, this.exportValue(subscriber, column, listId)]],
+      );
+      return format === "csv"
+        ? `${entries.map(([, v]) => csvCell(v, delimiter)).join(delimiter)}\n`
+        : `${JSON.stringify(
+            Object.fromEntries(entries.map(([c, v]) => [c, v ?? null])),
+          )}\n`;
+    };
+
+    if (format === "csv") {
+      yield `${columns.map((c) => csvCell(c, delimiter)).join(delimiter)}\n`;
+    }
+    for (;;) {
+      const next = await members.next();
+      if (next.done) {
+        return next.value;
+      }
+      yield line(next.value);
+    }
+  }
+
+  exportSubscribersStream(
+    options: LMCExportOptions<A> = {},
+  ): ReadableStream<Uint8Array> {
+    const lines = this.exportSubscribers(options);
+    const encoder = new TextEncoder();
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const next = await lines.next();
+        if (!next.done) {
+          controller.enqueue(encoder.encode(next.value));
+        } else if (next.value && !next.value.success) {
+          controller.error(new LMCError(next.value));
+        } else {
+          controller.close();
+        }
+      },
+      async cancel() {
+        await lines.return(null);
+      },
+    });
+  }
+
+  private exportValue(
+    subscriber: LMCSubscriber<A>,
+    column: LMCExportColumn,
+    listId?: number,
+  ): unknown {
+    if (column === "subscription_status") {
+      const membership = subscriber.lists?.find((l) => l.id === listId);
+      return membership?.subscription_status ?? null;
+    }
+    if (column === "lists") {
+      return (subscriber.lists ?? []).map((l) => ({
+        id: l.id,
+        subscription_status: l.subscription_status ?? null,
+      }));
+    }
+    if (column.startsWith("attribs.")) {
+      let value: unknown = subscriber.attribs;
+      for (const key of column.slice("attribs.".length).split(".")) {
+        value =
+          value && typeof value === "object" && !Array.isArray(value)
+            ? (value as Record<string, unknown>)[key]
+            : undefined;
+      }
+      return value ?? null;
+    }
+    return (subscriber as unknown as Record<string, unknown>)[column] ?? null;
   }
 
   async addSubscribersToList(
     listId: number,
-    entries: LMCBulkSubscription[],
-    options: { attachToList?: boolean } = {},
-  ): Promise<LMCResponse<LMCBulkAddResult>> {
+    entries: LMCBulkSubscription<A>[],
+    options: LMCBulkAddOptions & { dryRun: true },
+  ): Promise<LMCResponse<LMCSyncPlan>>;
+  async addSubscribersToList(
+    listId: number,
+    entries: LMCBulkSubscription<A>[],
+    options?: LMCBulkAddOptions,
+  ): Promise<LMCResponse<LMCBulkAddResult<A>>>;
+  async addSubscribersToList(
+    listId: number,
+    entries: LMCBulkSubscription<A>[],
+    options: LMCBulkAddOptions = {},
+  ): Promise<LMCResponse<LMCBulkAddResult<A> | LMCSyncPlan>> {
+    if (options.dryRun && entries.length === 0) {
+      return LMCResponse.ok(ListMonkClient.emptyPlan(), {
+        message: "Dry run",
+      });
+    }
     if (entries.length === 0) {
       return LMCResponse.ok(
         {
@@ -839,18 +2843,12 @@ export default class ListMonkClient {
       );
     }
 
-    const normalized = entries.map((entry) => {
-      const derivedUid =
-        entry.uid ??
-        (typeof entry.attribs?.uid === "string"
-          ? String(entry.attribs.uid)
-          : undefined);
-      const attribs: LMCSubscriberAttribs = { ...(entry.attribs ?? {}) };
-      if (derivedUid) attribs.uid = derivedUid;
-      return { ...entry, uid: derivedUid, attribs };
-    });
+    const normalized = entries.map((entry) => ({
+      ...entry,
+      uid: entry.uid ?? ListMonkClient.attribUid(entry.attribs),
+    }));
 
-    const deduped = new Map<string, LMCBulkSubscription>();
+    const deduped = new Map<string, LMCBulkSubscription<A>>();
     normalized.forEach((entry) => {
       const key = entry.uid
         ? `uid:${entry.uid}`
@@ -865,13 +2863,13 @@ export default class ListMonkClient {
       emails.add(entry.email.toLowerCase());
     });
 
-    const existingByUid = new Map<string, LMCSubscriber>();
-    const existingByEmail = new Map<string, LMCSubscriber>();
+    const existingByUid = new Map<string, LMCSubscriber<A>>();
+    const existingByEmail = new Map<string, LMCSubscriber<A>>();
     const lookupChunkSize = 2500;
-
-    const escapeValue = (value: string) => value.replace(/'/g, "''");
+    const { tally, progress } = this.progressTracker(options.onProgress);
 
     const fetchSubscribers = async (
+      phase: LMCProgressPhase,
       values: string[],
       buildQuery: (chunk: string[]) => string,
     ) => {
@@ -879,41 +2877,45 @@ export default class ListMonkClient {
         const chunk = values.slice(i, i + lookupChunkSize);
         const query = buildQuery(chunk);
         const perPage = Math.max(chunk.length, 50);
-        const res = await this.get<LMCSubscriberPage>(
+        const res = await this.get<LMCSubscriberPage<A>>(
           `/subscribers?per_page=${perPage}&query=${query}`,
         );
         if (res.success && res.data) {
           res.data.results.forEach((s) => {
             const emailKey = s.email.toLowerCase();
             existingByEmail.set(emailKey, s);
-            const subUid =
-              typeof s.attribs?.uid === "string" ? String(s.attribs.uid) : null;
+            const subUid = ListMonkClient.attribUid(s.attribs);
             if (subUid) {
               existingByUid.set(subUid, s);
             }
           });
-        } else if (this.debug) {
-          console.warn("Lookup failed for chunk", res.code, res.message);
+        } else {
+          this.log("warn", "Lookup failed for chunk", {
+            code: res.code,
+            message: res.message,
+            chunkSize: chunk.length,
+          });
         }
+        progress(phase, i + chunk.length, values.length);
       }
     };
 
     if (uids.size > 0) {
-      await fetchSubscribers(Array.from(uids), (chunk) => {
-        const inList = chunk.map((u) => `'${escapeValue(u)}'`).join(",");
-        return encodeURIComponent(`attribs->>'uid' IN (${inList})`);
+      await fetchSubscribers("lookup-uid", Array.from(uids), (chunk) => {
+        return encodeURIComponent(
+          LMCQuery.in(LMCQuery.attrib("uid"), chunk).toString(),
+        );
       });
     }
 
     if (emails.size > 0) {
-      await fetchSubscribers(Array.from(emails), (chunk) => {
-        const inList = chunk.map((e) => `'${escapeValue(e)}'`).join(",");
-        return encodeURIComponent(`email IN (${inList})`);
+      await fetchSubscribers("lookup-email", Array.from(emails), (chunk) => {
+        return encodeURIComponent(LMCQuery.in("email", chunk).toString());
       });
     }
 
-    const created: LMCSubscriber[] = [];
-    const added: LMCSubscriber[] = [];
+    const created: LMCSubscriber<A>[] = [];
+    const added: LMCSubscriber<A>[] = [];
     const skippedBlocked: string[] = [];
     const skippedUnsubscribed: string[] = [];
     const addIds: number[] = [];
@@ -921,20 +2923,65 @@ export default class ListMonkClient {
     const memberships: LMCSubscriptionSnapshot[] = [];
     const errors: LMCBulkAddError[] = [];
     const attachToList = options.attachToList ?? true;
+    const plan = options.dryRun ? ListMonkClient.emptyPlan() : null;
 
-    for (const entry of deduped.values()) {
+    const pending = Array.from(deduped.values());
+    for (const [index, entry] of pending.entries()) {
+      // Report the previous entry here since the body has many early exits.
+      if (index > 0) progress("create-update", index, pending.length);
       const emailKey = entry.email.toLowerCase();
-      const entryAttribs: LMCSubscriberAttribs = { ...(entry.attribs ?? {}) };
-      if (entry.uid) entryAttribs.uid = entry.uid;
+      const entryAttribs = {
+        ...entry.attribs,
+        ...(entry.uid ? { uid: entry.uid } : {}),
+      };
 
       let existing =
         entry.uid !== undefined
           ? (existingByUid.get(entry.uid) ?? existingByEmail.get(emailKey))
           : existingByEmail.get(emailKey);
 
+      if (plan) {
+        const planEntry: LMCPlanEntry = {
+          email: entry.email,
+          ...(entry.uid ? { uid: entry.uid } : {}),
+          ...(existing ? { subscriberId: existing.id } : {}),
+        };
+        if (!existing) {
+          plan.create.push({
+            ...planEntry,
+            listIds: attachToList ? [listId] : [],
+          });
+          tally.created += 1;
+          continue;
+        }
+        const emailChanged =
+          !!entry.uid && existing.email.toLowerCase() !== emailKey;
+        if (emailChanged) {
+          plan.update.push({ ...planEntry, fields: ["email"] });
+          tally.updated += 1;
+        }
+        const membership = existing.lists?.find((l) => l.id === listId);
+        if (existing.status === "blocklisted") {
+          plan.skippedBlocklisted.push(planEntry);
+          tally.skipped += 1;
+        } else if (
+          attachToList &&
+          membership?.subscription_status === "unsubscribed"
+        ) {
+          plan.resubscribe.push({ ...planEntry, listIds: [listId] });
+          tally.resubscribed += 1;
+        } else if (attachToList && !membership) {
+          plan.attach.push({ ...planEntry, listIds: [listId] });
+          tally.added += 1;
+        } else if (!emailChanged) {
+          plan.unchanged.push(planEntry);
+        }
+        continue;
+      }
+
       if (!existing) {
         if (attachToList) {
-          const createRes = await this.subscribe(
+          const createRes = await this.subscribeToList(
             listId,
             {
               email: entry.email,
@@ -947,8 +2994,10 @@ export default class ListMonkClient {
           if (createRes.success && subscribeData?.subscriber) {
             if (subscribeData.created) {
               created.push(subscribeData.subscriber);
+              tally.created += 1;
             } else {
               added.push(subscribeData.subscriber);
+              tally.added += 1;
             }
             memberships.push({
               email: entry.email,
@@ -960,9 +3009,16 @@ export default class ListMonkClient {
               message: createRes.message,
               code: createRes.code,
             });
+            tally.failed += 1;
           }
         } else {
-          const createRes = await this.post<LMCSubscriber>("/subscribers", {
+          const invalid = this.checkAttribs(entryAttribs);
+          if (invalid) {
+            errors.push({ email: entry.email, message: invalid, code: 400 });
+            tally.failed += 1;
+            continue;
+          }
+          const createRes = await this.post<LMCSubscriber<A>>("/subscribers", {
             email: entry.email,
             name: entry.name ?? "",
             attribs: entryAttribs,
@@ -972,6 +3028,7 @@ export default class ListMonkClient {
           });
           if (createRes.success && createRes.data) {
             created.push(createRes.data);
+            tally.created += 1;
             memberships.push({
               email: entry.email,
               lists: createRes.data.lists,
@@ -982,13 +3039,20 @@ export default class ListMonkClient {
               message: createRes.message,
               code: createRes.code,
             });
+            tally.failed += 1;
           }
         }
         continue;
       }
 
       if (entry.uid && existing.email.toLowerCase() !== emailKey) {
-        const updateRes = await this.put<LMCSubscriber>(
+        const invalid = this.checkAttribs(entryAttribs);
+        if (invalid) {
+          errors.push({ email: entry.email, message: invalid, code: 400 });
+          tally.failed += 1;
+          continue;
+        }
+        const updateRes = await this.put<LMCSubscriber<A>>(
           `/subscribers/${existing.id}`,
           {
             email: entry.email,
@@ -1003,6 +3067,7 @@ export default class ListMonkClient {
           );
         }
         existing = updateRes.data;
+        tally.updated += 1;
         existingByEmail.set(emailKey, existing);
         if (entry.uid) {
           existingByUid.set(entry.uid, existing);
@@ -1011,6 +3076,7 @@ export default class ListMonkClient {
 
       if (existing.status === "blocklisted") {
         skippedBlocked.push(existing.email);
+        tally.skipped += 1;
         memberships.push({ email: existing.email, lists: existing.lists });
         continue;
       }
@@ -1035,12 +3101,19 @@ export default class ListMonkClient {
         if (isUnsubscribed) {
           resubscribeIds.push(existing.id);
           added.push(existing);
+          tally.resubscribed += 1;
         } else {
           addIds.push(existing.id);
           added.push(existing);
+          tally.added += 1;
         }
       }
     }
+    progress("create-update", pending.length, pending.length);
+
+    if (plan) {
+      return LMCResponse.ok(plan, { message: "Dry run" });
+    }
 
     if (attachToList && addIds.length > 0) {
       const addChunkSize = 2500;
@@ -1050,6 +3123,7 @@ export default class ListMonkClient {
           ids: chunk,
           action: "add",
         });
+        progress("attach", i + chunk.length, addIds.length);
       }
     }
 
@@ -1062,6 +3136,7 @@ export default class ListMonkClient {
           action: "add",
           target_list_ids: [listId],
         });
+        progress("resubscribe", i + chunk.length, resubscribeIds.length);
       }
     }
 
@@ -1094,12 +3169,49 @@ export default class ListMonkClient {
 
   async syncUsersToList(
     listId: number,
-    users: LMCUser[],
-  ): Promise<LMCResponse<LMCSyncUsersResult>> {
+    users: LMCUser<A>[],
+    options: LMCSyncUsersOptions & { dryRun: true },
+  ): Promise<LMCResponse<LMCSyncPlan>>;
+  async syncUsersToList(
+    listId: number,
+    users: LMCUser<A>[],
+    options?: LMCSyncUsersOptions,
+  ): Promise<LMCResponse<LMCSyncUsersResult>>;
+  async syncUsersToList(
+    listId: number,
+    users: LMCUser<A>[],
+    options: LMCSyncUsersOptions = {},
+  ): Promise<LMCResponse<LMCSyncUsersResult | LMCSyncPlan>> {
     if (!Number.isFinite(listId)) {
       return LMCResponse.error("listId must be a number", { code: 400 });
     }
-    if (users.length === 0) {
+    if (options.mirror) {
+      const { policy, maxRemoveRatio = 0.1 } = options.mirror;
+      if (!["unsubscribe", "remove", "blocklist", "delete"].includes(policy)) {
+        return LMCResponse.error(
+          "mirror.policy must be unsubscribe, remove, blocklist or delete",
+          { code: 400 },
+        );
+      }
+      if (
+        !Number.isFinite(maxRemoveRatio) ||
+        maxRemoveRatio < 0 ||
+        maxRemoveRatio > 1
+      ) {
+        return LMCResponse.error(
+          "mirror.maxRemoveRatio must be between 0 and 1",
+          { code: 400 },
+        );
+      }
+    }
+    // With mirror enabled an empty source is meaningful (remove everyone), so
+    // only short-circuit when there is nothing to mirror.
+    if (options.dryRun && users.length === 0 && !options.mirror) {
+      return LMCResponse.ok(ListMonkClient.emptyPlan(), {
+        message: "Dry run",
+      });
+    }
+    if (users.length === 0 && !options.mirror) {
       return LMCResponse.ok({
         blocked: 0,
         unsubscribed: 0,
@@ -1111,14 +3223,14 @@ export default class ListMonkClient {
     type NormalizedUser = {
       email: string;
       name?: string;
-      attribs: LMCSubscriberAttribs;
+      attribs?: LMCSubscriberAttribs;
       uid: string;
     };
 
-    const normalized: NormalizedUser[] = users.map((user) => ({
+    const normalized: NormalizedUser[] = (users as LMCUser[]).map((user) => ({
       email: user.email.trim(),
       name: user.name?.trim(),
-      attribs: user.attribs ?? {},
+      attribs: user.attribs,
       uid: (user.uid ?? "").trim(),
     }));
 
@@ -1132,7 +3244,6 @@ export default class ListMonkClient {
         code: 400,
       });
     }
-
     const deduped = new Map<string, NormalizedUser>();
     normalized.forEach((user) => {
       deduped.set(user.uid, user);
@@ -1145,10 +3256,10 @@ export default class ListMonkClient {
     const existingByUid = new Map<string, LMCSubscriber>();
     const existingByEmail = new Map<string, LMCSubscriber>();
     const lookupChunkSize = 2500;
-
-    const escapeValue = (value: string) => value.replace(/'/g, "''");
+    const { tally, progress } = this.progressTracker(options.onProgress);
 
     const fetchSubscribers = async (
+      phase: LMCProgressPhase,
       values: string[],
       buildQuery: (chunk: string[]) => string,
     ) => {
@@ -1169,23 +3280,28 @@ export default class ListMonkClient {
               existingByUid.set(subUid, s);
             }
           });
-        } else if (this.debug) {
-          console.warn("Lookup failed for chunk", res.code, res.message);
+        } else {
+          this.log("warn", "Lookup failed for chunk", {
+            code: res.code,
+            message: res.message,
+            chunkSize: chunk.length,
+          });
         }
+        progress(phase, i + chunk.length, values.length);
       }
     };
 
     if (uids.length > 0) {
-      await fetchSubscribers(Array.from(uids), (chunk) => {
-        const inList = chunk.map((u) => `'${escapeValue(u)}'`).join(",");
-        return encodeURIComponent(`attribs->>'uid' IN (${inList})`);
+      await fetchSubscribers("lookup-uid", Array.from(uids), (chunk) => {
+        return encodeURIComponent(
+          LMCQuery.in(LMCQuery.attrib("uid"), chunk).toString(),
+        );
       });
     }
 
     if (emails.size > 0) {
-      await fetchSubscribers(Array.from(emails), (chunk) => {
-        const inList = chunk.map((e) => `'${escapeValue(e)}'`).join(",");
-        return encodeURIComponent(`email IN (${inList})`);
+      await fetchSubscribers("lookup-email", Array.from(emails), (chunk) => {
+        return encodeURIComponent(LMCQuery.in("email", chunk).toString());
       });
     }
 
@@ -1197,17 +3313,109 @@ export default class ListMonkClient {
     };
     const addIds: number[] = [];
     const resubscribeIds: number[] = [];
+    const plan = options.dryRun ? ListMonkClient.emptyPlan() : null;
+    const resubscribe = options.resubscribe ?? true;
+    const reports = new Map<string, LMCSyncUserReport>();
+    const uidById = new Map<number, string>();
+    const errors: LMCSyncUserError[] = [];
+
+    const report = (entry: NormalizedUser): LMCSyncUserReport => {
+      let current = reports.get(entry.uid);
+      if (!current) {
+        current = { uid: entry.uid, email: entry.email, outcomes: [] };
+        reports.set(entry.uid, current);
+      }
+      return current;
+    };
+    // Records an outcome on the user's report (none in dry-run mode) and in
+    // the progress tally.
+    const record = (
+      current: LMCSyncUserReport | null,
+      outcome: LMCSyncUserOutcome,
+    ) => {
+      current?.outcomes.push(outcome);
+      const counter = PROGRESS_COUNTERS[outcome];
+      if (counter) tally[counter] += 1;
+    };
+    const fail = (
+      entry: NormalizedUser,
+      res: { message: string; code?: number },
+    ) => {
+      const current = report(entry);
+      record(current, "failed");
+      current.error = { message: res.message, code: res.code };
+      errors.push({
+        uid: entry.uid,
+        email: entry.email,
+        message: res.message,
+        code: res.code,
+      });
+    };
+
+    const buildResult = (mirror?: LMCMirrorResult): LMCSyncUsersResult => ({
+      ...counts,
+      ...(options.detailed ? { users: Array.from(reports.values()) } : {}),
+      ...(errors.length > 0 ? { errors } : {}),
+      ...(mirror ? { mirror } : {}),
+    });
+
+    // The mirror scan runs before any write so an aborted mirror leaves the
+    // list untouched and the ratio reflects membership before the sync.
+    let mirror: LMCMirrorResult | undefined;
+    let mirrorAborted: string | null = null;
+    if (options.mirror) {
+      const { policy, maxRemoveRatio = 0.1 } = options.mirror;
+      const scan = await this.scanMirrorCandidates(listId, deduped, policy);
+      if (!scan.success || !scan.data) {
+        return plan
+          ? (scan as unknown as LMCResponse<LMCSyncPlan>)
+          : LMCResponse.error(`Mirror scan failed: ${scan.message}`, {
+              code: scan.code,
+              data: buildResult(),
+            });
+      }
+      const { members, candidates } = scan.data;
+      mirror = { policy, members, candidates, removed: 0, aborted: false };
+      if (members > 0 && candidates.length / members > maxRemoveRatio) {
+        mirrorAborted = `Mirror aborted: ${candidates.length} of ${members} list members would be removed (max ratio ${maxRemoveRatio})`;
+      }
+      if (mirrorAborted && !plan) {
+        mirror.aborted = true;
+        return LMCResponse.error(mirrorAborted, {
+          code: 409,
+          data: buildResult(mirror),
+        });
+      }
+    }
 
-    for (const entry of deduped.values()) {
+    const pending = Array.from(deduped.values());
+    for (const [index, entry] of pending.entries()) {
+      // Report the previous entry here since the body has many early exits.
+      if (index > 0) progress("create-update", index, pending.length);
       const emailKey = entry.email.toLowerCase();
       let existing =
         existingByUid.get(entry.uid) ?? existingByEmail.get(emailKey);
+      const planEntry: LMCPlanEntry = {
+        email: entry.email,
+        uid: entry.uid,
+        ...(existing ? { subscriberId: existing.id } : {}),
+      };
+
+      if (!existing && plan) {
+        plan.create.push({ ...planEntry, listIds: [listId] });
+        record(null, "created");
+        continue;
+      }
 
       if (!existing) {
-        const attribs: LMCSubscriberAttribs = { ...(entry.attribs ?? {}) };
+        const attribs = this.mergeAttribs(
+          undefined,
+          entry.attribs,
+          options.attribMerge,
+        );
         attribs.uid = entry.uid;
 
-        const createRes = await this.subscribe(
+        const createRes = await this.subscribeToList(
           listId,
           {
             email: entry.email,
@@ -1217,16 +3425,34 @@ export default class ListMonkClient {
           { preconfirm: true, status: "enabled" },
         );
         if (!createRes.success || !createRes.data?.subscriber) {
-          return createRes as unknown as LMCResponse<LMCSyncUsersResult>;
+          fail(entry, createRes);
+          continue;
         }
+        const current = report(entry);
+        current.subscriberId = createRes.data.subscriber.id;
+        record(
+          current,
+          createRes.data.created
+            ? "created"
+            : createRes.data.added
+              ? "added"
+              : "unchanged",
+        );
         if (createRes.data.added) {
           counts.added += 1;
         }
         continue;
       }
 
+      const current = plan ? null : report(entry);
+      if (current) {
+        current.subscriberId = existing.id;
+      }
+
       if (existing.status === "blocklisted") {
         counts.blocked += 1;
+        plan?.skippedBlocklisted.push(planEntry);
+        record(current, "skipped-blocklisted");
         continue;
       }
 
@@ -1239,10 +3465,11 @@ export default class ListMonkClient {
         counts.unsubscribed += 1;
       }
 
-      const targetAttribs: LMCSubscriberAttribs = {
-        ...(existing.attribs ?? {}),
-        ...(entry.attribs ?? {}),
-      };
+      const targetAttribs = this.mergeAttribs(
+        existing.attribs,
+        entry.attribs,
+        options.attribMerge,
+      );
       targetAttribs.uid = entry.uid;
 
       const targetEmail = entry.email;
@@ -1256,36 +3483,101 @@ export default class ListMonkClient {
         targetAttribs,
       );
 
-      if (needsEmailUpdate || needsNameUpdate || needsAttribUpdate) {
-        const updateRes = await this.put<LMCSubscriber>(
-          `/subscribers/${existing.id}`,
-          {
-            email: targetEmail,
-            name: targetName,
-            attribs: targetAttribs,
-          },
-        );
-        if (!updateRes.success || !updateRes.data) {
-          return updateRes as unknown as LMCResponse<LMCSyncUsersResult>;
+      const needsUpdate =
+        needsEmailUpdate || needsNameUpdate || needsAttribUpdate;
+      const fields: LMCPlanField[] = [];
+      if (needsEmailUpdate) fields.push("email");
+      if (needsNameUpdate) fields.push("name");
+      if (needsAttribUpdate) fields.push("attribs");
+
+      if (needsUpdate) {
+        if (plan) {
+          plan.update.push({ ...planEntry, fields });
+        } else {
+          const invalid = this.checkAttribs(targetAttribs);
+          if (invalid) {
+            fail(entry, { message: invalid, code: 400 });
+            continue;
+          }
+          const updateRes = await this.put<LMCSubscriber>(
+            `/subscribers/${existing.id}`,
+            {
+              email: targetEmail,
+              name: targetName,
+              attribs: targetAttribs,
+            },
+          );
+          if (!updateRes.success || !updateRes.data) {
+            fail(entry, updateRes);
+            continue;
+          }
+          existing = updateRes.data;
+          if (current) current.updatedFields = fields;
         }
-        existing = updateRes.data;
         counts.updated += 1;
+        record(current, "updated");
       }
 
       const listEntry = existing.lists?.find((l) => l.id === listId);
       const onList =
         listEntry &&
         (listEntry as LMCSubscription).subscription_status !== "unsubscribed";
-      if (!onList || isUnsubscribed) {
+      if (isUnsubscribed && !resubscribe) {
+        plan?.skippedUnsubscribed.push(planEntry);
+        record(current, "skipped-unsubscribed");
+      } else if (!onList || isUnsubscribed) {
         if (isUnsubscribed) {
           resubscribeIds.push(existing.id);
+          plan?.resubscribe.push({ ...planEntry, listIds: [listId] });
+          record(current, "resubscribed");
         } else {
           addIds.push(existing.id);
+          plan?.attach.push({ ...planEntry, listIds: [listId] });
+          record(current, "added");
         }
+        uidById.set(existing.id, entry.uid);
         counts.added += 1;
+      } else if (!needsUpdate) {
+        plan?.unchanged.push(planEntry);
+        record(current, "unchanged");
+      }
+    }
+    progress("create-update", pending.length, pending.length);
+
+    if (plan) {
+      if (mirror) {
+        plan.detach.push(...mirror.candidates);
+        if (mirrorAborted) {
+          return LMCResponse.error(mirrorAborted, { code: 409, data: plan });
+        }
       }
+      return LMCResponse.ok(plan, { message: "Dry run" });
     }
 
+    const failChunk = (
+      ids: number[],
+      res: { message: string; code?: number },
+    ) => {
+      ids.forEach((id) => {
+        const uid = uidById.get(id);
+        const entry = uid ? deduped.get(uid) : undefined;
+        if (!entry) return;
+        const current = report(entry);
+        if (current.outcomes.includes("resubscribed")) {
+          tally.resubscribed -= 1;
+        } else {
+          tally.added -= 1;
+        }
+        // The membership change never happened, so drop the optimistic
+        // "added"/"resubscribed" outcome before recording the failure.
+        current.outcomes = current.outcomes.filter(
+          (o) => o !== "added" && o !== "resubscribed",
+        );
+        counts.added -= 1;
+        fail(entry, res);
+      });
+    };
+
     if (addIds.length > 0) {
       const addChunkSize = 2500;
       for (let i = 0; i < addIds.length; i += addChunkSize) {
@@ -1295,8 +3587,9 @@ export default class ListMonkClient {
           action: "add",
         });
         if (!res.success) {
-          return res as unknown as LMCResponse<LMCSyncUsersResult>;
+          failChunk(chunk, res);
         }
+        progress("attach", i + chunk.length, addIds.length);
       }
     }
 
@@ -1310,19 +3603,501 @@ export default class ListMonkClient {
           target_list_ids: [listId],
         });
         if (!res.success) {
-          return res as unknown as LMCResponse<LMCSyncUsersResult>;
+          failChunk(chunk, res);
         }
+        progress("resubscribe", i + chunk.length, resubscribeIds.length);
       }
     }
 
-    return LMCResponse.ok(counts);
+    let attempted = deduped.size;
+    if (mirror) {
+      const { policy, candidates } = mirror;
+      attempted += candidates.length;
+      const chunkSize = policy === "delete" ? 500 : 2500;
+      for (let i = 0; i < candidates.length; i += chunkSize) {
+        const chunk = candidates.slice(i, i + chunkSize);
+        const res = await this.applyMirrorPolicy(
+          listId,
+          policy,
+          chunk.map((c) => c.subscriberId as number),
+        );
+        if (res.success) {
+          mirror.removed += chunk.length;
+          tally.removed += chunk.length;
+        } else {
+          chunk.forEach((c) => {
+            errors.push({
+              uid: c.uid ?? "",
+              email: c.email,
+              message: res.message,
+              code: res.code,
+            });
+          });
+          tally.failed += chunk.length;
+        }
+        progress("mirror", i + chunk.length, candidates.length);
+      }
+    }
+
+    const result = buildResult(mirror);
+
+    if (errors.length > 0) {
+      return LMCResponse.error("Failed to sync some users", {
+        code: errors.length === attempted ? 500 : 207,
+        data: result,
+      });
+    }
+
+    return LMCResponse.ok(result);
+  }
+
+  private async scanMirrorCandidates(
+    listId: number,
+    keep: Map<string, unknown>,
+    policy: LMCMirrorPolicy,
+  ): Promise<LMCResponse<{ members: number; candidates: LMCPlanEntry[] }>> {
+    const failures: LMCResponse<LMCSubscriberPage<A>>[] = [];
+    const candidates: LMCPlanEntry[] = [];
+    let members = 0;
+
+    for await (const subscriber of this.iterateSubscribers({
+      listIds: listId,
+      onError: (res) => failures.push(res),
+    })) {
+      const membership = subscriber.lists?.find((l) => l.id === listId) as
+        | LMCSubscription
+        | undefined;
+      if (!membership) continue;
+      members += 1;
+
+      // Members without a uid were never created by a sync; leave them alone.
+      const attribs = subscriber.attribs as LMCSubscriberAttribs | undefined;
+      const uid = typeof attribs?.uid === "string" ? attribs.uid.trim() : "";
+      if (!uid || keep.has(uid)) continue;
+      if (
+        policy === "unsubscribe" &&
+        membership.subscription_status === "unsubscribed"
+      ) {
+        continue;
+      }
+      if (policy === "blocklist" && subscriber.status === "blocklisted") {
+        continue;
+      }
+      candidates.push({
+        email: subscriber.email,
+        uid,
+        subscriberId: subscriber.id,
+        listIds: [listId],
+      });
+    }
+
+    if (failures.length > 0) {
+      return failures[0] as unknown as LMCResponse<{
+        members: number;
+        candidates: LMCPlanEntry[];
+      }>;
+    }
+    return LMCResponse.ok({ members, candidates });
+  }
+
+  private async applyMirrorPolicy(
+    listId: number,
+    policy: LMCMirrorPolicy,
+    ids: number[],
+  ): Promise<LMCResponse<unknown>> {
+    switch (policy) {
+      case "unsubscribe":
+      case "remove":
+        return this.put(`/subscribers/lists`, {
+          ids,
+          action: policy,
+          target_list_ids: [listId],
+        });
+      case "blocklist":
+        return this.put(`/subscribers/blocklist`, { ids });
+      case "delete":
+        return this.deleteSubscribers(ids);
+    }
+  }
+
+  async syncUsersToListJob(
+    jobId: string,
+    listId: number,
+    users: LMCUser<A>[],
+    options: LMCSyncJobOptions &
+      Omit<LMCSyncUsersOptions, "dryRun" | "mirror" | "onProgress">,
+  ): Promise<LMCResponse<LMCSyncUsersResult>> {
+    const { store, chunkSize, onProgress, ...syncOptions } = options;
+    return this.runSyncJob<LMCUser<A>, LMCSyncUsersResult>(
+      "syncUsersToList",
+      jobId,
+      listId,
+      users,
+      { store, chunkSize, onProgress },
+      (user) => (user.uid ?? "").trim(),
+      (counts) => ({
+        blocked: counts.blocked ?? 0,
+        unsubscribed: counts.unsubscribed ?? 0,
+        added: counts.added ?? 0,
+        updated: counts.updated ?? 0,
+      }),
+      (chunk) => this.syncUsersToList(listId, chunk, syncOptions),
+      (acc, next) => ({
+        blocked: acc.blocked + next.blocked,
+        unsubscribed: acc.unsubscribed + next.unsubscribed,
+        added: acc.added + next.added,
+        updated: acc.updated + next.updated,
+        ...(acc.users || next.users
+          ? { users: [...(acc.users ?? []), ...(next.users ?? [])] }
+          : {}),
+        ...(acc.errors || next.errors
+          ? { errors: [...(acc.errors ?? []), ...(next.errors ?? [])] }
+          : {}),
+      }),
+      (result) => ({
+        blocked: result.blocked,
+        unsubscribed: result.unsubscribed,
+        added: result.added,
+        updated: result.updated,
+        failed: result.errors?.length ?? 0,
+      }),
+    );
+  }
+
+  async addSubscribersToListJob(
+    jobId: string,
+    listId: number,
+    entries: LMCBulkSubscription<A>[],
+    options: LMCSyncJobOptions &
+      Omit<LMCBulkAddOptions, "dryRun" | "onProgress">,
+  ): Promise<LMCResponse<LMCBulkAddResult<A>>> {
+    const { store, chunkSize, onProgress, ...addOptions } = options;
+    return this.runSyncJob<LMCBulkSubscription<A>, LMCBulkAddResult<A>>(
+      "addSubscribersToList",
+      jobId,
+      listId,
+      entries,
+      { store, chunkSize, onProgress },
+      (entry) => {
+        const uid = entry.uid ?? ListMonkClient.attribUid(entry.attribs);
+        return uid
+          ? `uid:${uid}`
+          : `email:${(entry.email ?? "").trim().toLowerCase()}`;
+      },
+      // Entries from earlier runs are not persisted, so the result covers
+      // this run only; progress counts cover the whole job.
+      () => ({
+        created: [],
+        added: [],
+        skippedBlocked: [],
+        skippedUnsubscribed: [],
+        memberships: [],
+        errors: [],
+      }),
+      (chunk) => this.addSubscribersToList(listId, chunk, addOptions),
+      (acc, next) => ({
+        created: [...acc.created, ...next.created],
+        added: [...acc.added, ...next.added],
+        skippedBlocked: [...acc.skippedBlocked, ...next.skippedBlocked],
+        skippedUnsubscribed: [
+          ...acc.skippedUnsubscribed,
+          ...next.skippedUnsubscribed,
+        ],
+        memberships: [...(acc.memberships ?? []), ...(next.memberships ?? [])],
+        errors: [...(acc.errors ?? []), ...(next.errors ?? [])],
+      }),
+      (result) => ({
+        created: result.created.length,
+        added: result.added.length,
+        skippedBlocked: result.skippedBlocked.length,
+        skippedUnsubscribed: result.skippedUnsubscribed.length,
+        failed: result.errors?.length ?? 0,
+      }),
+    );
+  }
+
+  async importSubscribers(
+    source: LMCBulkSubscription<A>[] | LMCImportFile,
+    options: LMCImportOptions = {},
+  ): Promise<LMCResponse<LMCImportStatus>> {
+    const mode = options.mode ?? "subscribe";
+    if (mode !== "subscribe" && mode !== "blocklist") {
+      return LMCResponse.error("mode must be subscribe or blocklist", {
+        code: 400,
+      });
+    }
+    const delimiter = options.delimiter ?? ",";
+    if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+      return LMCResponse.error("delimiter must be a single character", {
+        code: 400,
+      });
+    }
+    const lists = options.lists ?? [];
+    if (!lists.every((id) => Number.isFinite(id))) {
+      return LMCResponse.error("lists must be an array of numbers", {
+        code: 400,
+      });
+    }
+
+    let file: Blob;
+    if (Array.isArray(source)) {
+      const csv = this.buildImportCsv(source, delimiter);
+      if (csv instanceof LMCResponse) {
+        return csv as LMCResponse<LMCImportStatus>;
+      }
+      file = new Blob([csv], { type: "text/csv" });
+    } else if (source instanceof Blob) {
+      file = source;
+    } else if (
+      typeof ReadableStream !== "undefined" &&
+      source instanceof ReadableStream
+    ) {
+      file = await new Response(source).blob();
+    } else {
+      file = new Blob([source as BlobPart], { type: "text/csv" });
+    }
+
+    const form = new FormData();
+    form.append(
+      "params",
+      JSON.stringify({
+        mode,
+        delim: delimiter,
+        lists,
+        overwrite: options.overwrite ?? false,
+        ...(options.subscriptionStatus
+          ? { subscription_status: options.subscriptionStatus }
+          : {}),
+      }),
+    );
+    form.append("file", file, options.filename ?? "subscribers.csv");
+    return this.request<LMCImportStatus>("POST", "/import/subscribers", form);
+  }
+
+  async getImportStatus(): Promise<LMCResponse<LMCImportStatus>> {
+    return this.get<LMCImportStatus>("/import/subscribers");
+  }
+
+  async getImportLogs(): Promise<LMCResponse<string>> {
+    return this.get<string>("/import/subscribers/logs");
+  }
+
+  async stopImport(): Promise<LMCResponse<LMCImportStatus>> {
+    return this.delete<LMCImportStatus>("/import/subscribers");
+  }
+
+  async waitForImport(
+    options: LMCWaitForImportOptions = {},
+  ): Promise<LMCResponse<LMCImportStatus>> {
+    const intervalMS = options.intervalMS ?? 1_000;
+    const deadline =
+      options.timeoutMS !== undefined ? Date.now() + options.timeoutMS : null;
+    for (;;) {
+      const res = await this.getImportStatus();
+      if (!res.success || !res.data) {
+        return res;
+      }
+      this.notify("onStatus", options.onStatus, res.data);
+      const state = res.data.status;
+      if (state === "failed") {
+        return LMCResponse.error("Import failed", {
+          code: 500,
+          data: res.data,
+        });
+      }
+      if (state !== "importing" && state !== "stopping") {
+        return res;
+      }
+      if (deadline !== null && Date.now() + intervalMS > deadline) {
+        return LMCResponse.error("Timed out waiting for import", {
+          code: 504,
+          data: res.data,
+          errorCode: "TIMEOUT",
+        });
+      }
+      await ListMonkClient.sleep(intervalMS);
+    }
+  }
+
+  // Listmonk's importer expects email, name and a JSON attributes column.
+  private buildImportCsv(
+    entries: LMCBulkSubscription<A>[],
+    delimiter: string,
+  ): string | LMCResponse<never> {
+    if (entries.length === 0) {
+      return LMCResponse.error("No subscribers provided", { code: 400 });
+    }
+    const rows = [["email", "name", "attributes"].join(delimiter)];
+    for (let i = 0; i < entries.length; i += 1) {
+      const entry = entries[i];
+      const email = entry.email?.trim();
+      if (!email) {
+        return LMCResponse.error(`Entry ${i} is missing an email`, {
+          code: 400,
+        });
+      }
+      const attribs = {
+        ...entry.attribs,
+        ...(entry.uid ? { uid: entry.uid } : {}),
+      };
+      const invalid = this.checkAttribs(attribs);
+      if (invalid) {
+        return LMCResponse.error(`Entry ${i} (${email}): ${invalid}`, {
+          code: 400,
+        });
+      }
+      rows.push(
+        [email, entry.name ?? "", JSON.stringify(attribs)]
+          .map((value) => csvCell(value, delimiter))
+          .join(delimiter),
+      );
+    }
+    return `${rows.join("\n")}\n`;
+  }
+
+  private async runSyncJob<TItem, TResult extends object>(
+    kind: LMCSyncJobKind,
+    jobId: string,
+    listId: number,
+    input: TItem[],
+    options: LMCSyncJobOptions,
+    keyOf: (item: TItem) => string,
+    start: (counts: Record<string, number>) => TResult,
+    runChunk: (chunk: TItem[]) => Promise<LMCResponse<TResult>>,
+    merge: (acc: TResult, next: TResult) => TResult,
+    tally: (result: TResult) => Record<string, number>,
+  ): Promise<LMCResponse<TResult>> {
+    const chunkSize = options.chunkSize ?? 500;
+    if (typeof jobId !== "string" || !jobId.trim()) {
+      return LMCResponse.error("jobId is required", { code: 400 });
+    }
+    if (!Number.isFinite(listId)) {
+      return LMCResponse.error("listId must be a number", { code: 400 });
+    }
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      return LMCResponse.error("chunkSize must be a positive integer", {
+        code: 400,
+      });
+    }
+
+    const { store } = options;
+    let checkpoint: LMCSyncCheckpoint | null;
+    try {
+      checkpoint = await store.load(jobId);
+    } catch (err) {
+      return LMCResponse.error(
+        `Failed to load checkpoint: ${err instanceof Error ? err.message : String(err)}`,
+        { code: 500, errorCode: "UNKNOWN" },
+      );
+    }
+
+    // Later duplicates replace earlier ones, as in the bulk methods, so one
+    // key never spans two chunks. Items without a key are left to the chunk
+    // call to reject.
+    const unique = new Map<string, TItem>();
+    input.forEach((item, index) => {
+      unique.set(keyOf(item) || `#${index}`, item);
+    });
+    const items = Array.from(unique.values());
+
+    const fingerprint = fingerprintOf(items.map(keyOf));
+    if (
+      checkpoint &&
+      (checkpoint.kind !== kind ||
+        checkpoint.listId !== listId ||
+        checkpoint.total !== items.length ||
+        checkpoint.chunkSize !== chunkSize ||
+        checkpoint.fingerprint !== fingerprint)
+    ) {
+      return LMCResponse.error(
+        `Checkpoint for job ${jobId} does not match this input`,
+        { code: 409 },
+      );
+    }
+
+    const resumed = checkpoint !== null;
+    const counts = { ...checkpoint?.counts };
+    let result = start(counts);
+    const chunks = Math.ceil(items.length / chunkSize);
+
+    for (
+      let index = checkpoint?.nextIndex ?? 0;
+      index < items.length;
+      index += chunkSize
+    ) {
+      const chunk = items.slice(index, index + chunkSize);
+      const res = await runChunk(chunk);
+      // Partial failures still carry data; anything else stops the job and
+      // leaves the last checkpoint in place for a later resume.
+      if (!res.data) {
+        return LMCResponse.error(res.message, {
+          code: res.code,
+          data: result,
+        });
+      }
+      result = merge(result, res.data);
+      Object.entries(tally(res.data)).forEach(([key, value]) => {
+        counts[key] = (counts[key] ?? 0) + value;
+      });
+
+      const nextIndex = index + chunk.length;
+      try {
+        await store.save({
+          jobId,
+          kind,
+          listId,
+          total: items.length,
+          chunkSize,
+          nextIndex,
+          fingerprint,
+          counts: { ...counts },
+          updatedAt: new Date().toISOString(),
+        });
+      } catch (err) {
+        return LMCResponse.error(
+          `Failed to save checkpoint: ${err instanceof Error ? err.message : String(err)}`,
+          { code: 500, data: result, errorCode: "UNKNOWN" },
+        );
+      }
+
+      this.notify("onProgress", options.onProgress, {
+        jobId,
+        chunk: Math.ceil(nextIndex / chunkSize),
+        chunks,
+        processed: nextIndex,
+        total: items.length,
+        resumed,
+        counts: { ...counts },
+      });
+    }
+
+    try {
+      await store.clear(jobId);
+    } catch (err) {
+      this.log("warn", "Failed to clear checkpoint", {
+        jobId,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    const errorCount = counts.failed ?? 0;
+    if (errorCount > 0) {
+      return LMCResponse.error("Sync job finished with errors", {
+        code: errorCount === items.length ? 500 : 207,
+        data: result,
+      });
+    }
+    return LMCResponse.ok(result);
   }
 
   async updateUser(
-    identifier: { id?: number; uuid?: string; email?: string },
-    updates: Partial<LMCUser>,
-    options: { forceUidChange?: boolean } = {},
-  ): Promise<LMCResponse<LMCSubscriber>> {
+    identifier: LMCSubscriberIdentifier,
+    updates: LMCUserUpdate<A>,
+    options: {
+      forceUidChange?: boolean;
+      attribMerge?: LMCAttribMergeOptions;
+    } = {},
+  ): Promise<LMCResponse<LMCSubscriber<A>>> {
     const { id, uuid, email } = identifier;
     if (id === undefined && !uuid && !email) {
       return LMCResponse.error("id, uuid, or email is required", {
@@ -1334,16 +4109,19 @@ export default class ListMonkClient {
       return LMCResponse.error("No updates provided", { code: 400 });
     }
 
+    const incomingAttribs = updates.attribs as LMCSubscriberAttribs | undefined;
+
     const subscriber = await this.findSubscriber(identifier);
     if (!subscriber.success || !subscriber.data) {
-      return subscriber;
+      return subscriber as LMCResponse<LMCSubscriber<A>>;
     }
 
     const existing = subscriber.data;
-    const nextAttribs: LMCSubscriberAttribs = {
-      ...(existing.attribs ?? {}),
-      ...(updates.attribs ?? {}),
-    };
+    const nextAttribs = this.mergeAttribs(
+      existing.attribs,
+      incomingAttribs,
+      options.attribMerge,
+    );
 
     if (
       updates.uid !== undefined &&
@@ -1374,11 +4152,16 @@ export default class ListMonkClient {
     const nextName =
       updates.name !== undefined ? updates.name : (existing.name ?? "");
 
+    const invalid = this.checkAttribs(nextAttribs);
+    if (invalid) {
+      return LMCResponse.error(invalid, { code: 400 });
+    }
+
     const currentLists = existing.lists
       ?.map((l) => l.id)
       .filter((id): id is number => Number.isFinite(id));
 
-    return this.put<LMCSubscriber>(`/subscribers/${existing.id}`, {
+    return this.put<LMCSubscriber<A>>(`/subscribers/${existing.id}`, {
       email: nextEmail,
       name: nextName,
       attribs: nextAttribs,
@@ -1388,11 +4171,400 @@ export default class ListMonkClient {
     });
   }
 
-  private async findSubscriber(identifier: {
-    id?: number;
-    uuid?: string;
-    email?: string;
-  }): Promise<LMCResponse<LMCSubscriber>> {
+  async listCampaigns(
+    options: LMCListCampaignsOptions = {},
+  ): Promise<LMCResponse<LMCCampaignPage>> {
+    const params = new URLSearchParams();
+    if (options.page !== undefined) {
+      params.set("page", String(options.page));
+    }
+    params.set("per_page", String(options.perPage ?? this.listPageSize));
+    if (options.query) {
+      params.set("query", options.query);
+    }
+    const statuses =
+      options.status === undefined
+        ? []
+        : Array.isArray(options.status)
+          ? options.status
+          : [options.status];
+    statuses.forEach((status) => params.append("status", status));
+    if (options.orderBy) {
+      params.set("order_by", options.orderBy);
+    }
+    if (options.order) {
+      params.set("order", options.order);
+    }
+
+    return this.get<LMCCampaignPage>(`/campaigns?${params.toString()}`);
+  }
+
+  async getCampaign(id: number): Promise<LMCResponse<LMCCampaign>> {
+    if (!Number.isFinite(id)) {
+      return LMCResponse.error("id must be a number", { code: 400 });
+    }
+    const res = await this.get<LMCCampaign>(`/campaigns/${id}`);
+    if (res.success && !res.data) {
+      return LMCResponse.error("Campaign not found", { code: 404 });
+    }
+    return res;
+  }
+
+  async createCampaign(
+    input: LMCCampaignInput,
+  ): Promise<LMCResponse<LMCCampaign>> {
+    const name = input.name?.trim();
+    if (!name) {
+      return LMCResponse.error("name is required", { code: 400 });
+    }
+    if (!input.subject?.trim()) {
+      return LMCResponse.error("subject is required", { code: 400 });
+    }
+    if (
+      !Array.isArray(input.lists) ||
+      input.lists.length === 0 ||
+      !input.lists.every((id) => Number.isFinite(id))
+    ) {
+      return LMCResponse.error("lists must be a non-empty array of numbers", {
+        code: 400,
+      });
+    }
+
+    return this.post<LMCCampaign>("/campaigns", {
+      ...input,
+      name,
+      type: input.type ?? "regular",
+      content_type: input.content_type ?? "richtext",
+    });
+  }
+
+  async updateCampaign(
+    id: number,
+    updates: Partial<LMCCampaignInput>,
+  ): Promise<LMCResponse<LMCCampaign>> {
+    if (!updates || Object.keys(updates).length === 0) {
+      return LMCResponse.error("No updates provided", { code: 400 });
+    }
+    if (
+      updates.lists !== undefined &&
+      !updates.lists.every((id) => Number.isFinite(id))
+    ) {
+      return LMCResponse.error("lists must be an array of numbers", {
+        code: 400,
+      });
+    }
+
+    const existing = await this.getCampaign(id);
+    if (!existing.success || !existing.data) {
+      return existing;
+    }
+
+    // Listmonk validates the full campaign on update, so merge onto the
+    // current record instead of sending a partial body.
+    return this.put<LMCCampaign>(`/campaigns/${id}`, {
+      ...this.toCampaignInput(existing.data),
+      ...updates,
+    });
+  }
+
+  async cloneCampaign(
+    id: number,
+    name?: string,
+  ): Promise<LMCResponse<LMCCampaign>> {
+    const existing = await this.getCampaign(id);
+    if (!existing.success || !existing.data) {
+      return existing;
+    }
+
+    const input = this.toCampaignInput(existing.data);
+    return this.createCampaign({
+      ...input,
+      name: name ?? `Copy of ${input.name}`,
+      send_at: null,
+    });
+  }
+
+  async deleteCampaign(id: number): Promise<LMCResponse<boolean>> {
+    if (!Number.isFinite(id)) {
+      return LMCResponse.error("id must be a number", { code: 400 });
+    }
+    return this.delete<boolean>(`/campaigns/${id}`);
+  }
+
+  async scheduleCampaign(
+    id: number,
+    sendAt: Date | string,
+  ): Promise<LMCResponse<LMCCampaign>> {
+    const date = sendAt instanceof Date ? sendAt : new Date(sendAt);
+    if (Number.isNaN(date.getTime())) {
+      return LMCResponse.error("sendAt must be a valid date", { code: 400 });
+    }
+
+    const updateRes = await this.updateCampaign(id, {
+      send_at: date.toISOString(),
+    });
+    if (!updateRes.success) {
+      return updateRes;
+    }
+    return this.setCampaignStatus(id, "scheduled");
+  }
+
+  async startCampaign(id: number): Promise<LMCResponse<LMCCampaign>> {
+    return this.setCampaignStatus(id, "running");
+  }
+
+  async pauseCampaign(id: number): Promise<LMCResponse<LMCCampaign>> {
+    return this.setCampaignStatus(id, "paused");
+  }
+
+  async cancelCampaign(id: number): Promise<LMCResponse<LMCCampaign>> {
+    return this.setCampaignStatus(id, "cancelled");
+  }
+
+  async sendTransactional(
+    message: LMCTransactionalMessage,
+  ): Promise<LMCResponse<boolean>> {
+    if (!Number.isFinite(message.templateId)) {
+      return LMCResponse.error("templateId must be a number", { code: 400 });
+    }
+
+    const { id, uuid, email } = message.subscriber ?? {};
+    let target: { subscriber_id: number } | { subscriber_email: string };
+    if (id !== undefined) {
+      if (!Number.isFinite(id)) {
+        return LMCResponse.error("id must be a number", { code: 400 });
+      }
+      target = { subscriber_id: id };
+    } else if (email?.trim()) {
+      target = { subscriber_email: email.trim() };
+    } else if (uuid) {
+      // The tx endpoint only accepts ids or emails, so resolve uuids first.
+      const subscriber = await this.findSubscriber({ uuid });
+      if (!subscriber.success || !subscriber.data) {
+        return subscriber as unknown as LMCResponse<boolean>;
+      }
+      target = { subscriber_id: subscriber.data.id };
+    } else {
+      return LMCResponse.error("id, uuid, or email is required", {
+        code: 400,
+      });
+    }
+
+    const headers = message.headers
+      ? Array.isArray(message.headers)
+        ? message.headers
+        : Object.entries(message.headers).map(([key, value]) => ({
+            [key]: value,
+          }))
+      : undefined;
+
+    const payload: Record<string, unknown> = {
+      ...target,
+      template_id: message.templateId,
+      data: message.data ?? {},
+      content_type: message.contentType ?? "html",
+      ...(headers ? { headers } : {}),
+      ...(message.fromEmail ? { from_email: message.fromEmail } : {}),
+      ...(message.subject ? { subject: message.subject } : {}),
+      ...(message.messenger ? { messenger: message.messenger } : {}),
+      ...(message.altbody ? { altbody: message.altbody } : {}),
+    };
+
+    if (!message.attachments || message.attachments.length === 0) {
+      return this.post<boolean>("/tx", payload);
+    }
+
+    const form = new FormData();
+    form.append("data", JSON.stringify(payload));
+    message.attachments.forEach((attachment) => {
+      const blob =
+        attachment.content instanceof Blob
+          ? attachment.content
+          : new Blob([attachment.content as BlobPart], {
+              type: attachment.contentType ?? "application/octet-stream",
+            });
+      form.append("file", blob, attachment.filename);
+    });
+
+    return this.request<boolean>("POST", "/tx", form);
+  }
+
+  async listTemplates(
+    options: { noBody?: boolean } = {},
+  ): Promise<LMCResponse<LMCTemplate[]>> {
+    const path = options.noBody ? "/templates?no_body=true" : "/templates";
+    const res = await this.get<LMCTemplate[]>(path);
+    if (res.success && !Array.isArray(res.data)) {
+      return LMCResponse.error("Unexpected response while fetching templates", {
+        code: res.code,
+      });
+    }
+    return res;
+  }
+
+  async getTemplate(id: number): Promise<LMCResponse<LMCTemplate>> {
+    if (!Number.isFinite(id)) {
+      return LMCResponse.error("id must be a number", { code: 400 });
+    }
+    const res = await this.get<LMCTemplate>(`/templates/${id}`);
+    if (res.success && !res.data) {
+      return LMCResponse.error("Template not found", { code: 404 });
+    }
+    return res;
+  }
+
+  async createTemplate(
+    input: LMCTemplateInput,
+  ): Promise<LMCResponse<LMCTemplate>> {
+    const invalid = this.validateTemplateInput(input);
+    if (invalid) {
+      return invalid;
+    }
+    return this.post<LMCTemplate>("/templates", { ...input });
+  }
+
+  async updateTemplate(
+    id: number,
+    updates: Partial<LMCTemplateInput>,
+  ): Promise<LMCResponse<LMCTemplate>> {
+    if (!updates || Object.keys(updates).length === 0) {
+      return LMCResponse.error("No updates provided", { code: 400 });
+    }
+
+    const existing = await this.getTemplate(id);
+    if (!existing.success || !existing.data) {
+      return existing;
+    }
+
+    const next: LMCTemplateInput = {
+      name: existing.data.name,
+      type: existing.data.type,
+      body: existing.data.body ?? "",
+      ...(existing.data.subject !== undefined
+        ? { subject: existing.data.subject }
+        : {}),
+      ...(existing.data.body_source !== undefined
+        ? { body_source: existing.data.body_source }
+        : {}),
+      ...updates,
+    };
+    const invalid = this.validateTemplateInput(next);
+    if (invalid) {
+      return invalid;
+    }
+
+    return this.put<LMCTemplate>(`/templates/${id}`, { ...next });
+  }
+
+  async deleteTemplate(id: number): Promise<LMCResponse<boolean>> {
+    if (!Number.isFinite(id)) {
+      return LMCResponse.error("id must be a number", { code: 400 });
+    }
+    return this.delete<boolean>(`/templates/${id}`);
+  }
+
+  async setDefaultTemplate(id: number): Promise<LMCResponse<LMCTemplate>> {
+    if (!Number.isFinite(id)) {
+      return LMCResponse.error("id must be a number", { code: 400 });
+    }
+    return this.put<LMCTemplate>(`/templates/${id}/default`);
+  }
+
+  // Listmonk renders previews with its own dummy subscriber and campaign; the
+  // endpoint takes no sample data of its own.
+  async previewTemplate(
+    template: number | { type: LMCTemplateType; body: string },
+    options: { body?: string } = {},
+  ): Promise<LMCResponse<string>> {
+    const form = new FormData();
+    let path: string;
+    if (typeof template === "number") {
+      if (!Number.isFinite(template)) {
+        return LMCResponse.error("id must be a number", { code: 400 });
+      }
+      path = `/templates/${template}/preview`;
+      if (options.body !== undefined) {
+        form.append("body", options.body);
+      }
+    } else {
+      if (!template.body) {
+        return LMCResponse.error("body is required", { code: 400 });
+      }
+      path = "/templates/preview";
+      form.append("template_type", template.type);
+      form.append("body", options.body ?? template.body);
+    }
+
+    // Previews come back as rendered HTML, which parseJson surfaces as the
+    // response message rather than data.
+    const res = await this.request<string>("POST", path, form);
+    if (!res.success) {
+      return res;
+    }
+    return LMCResponse.ok(res.data ?? res.message, { code: res.code });
+  }
+
+  private async setCampaignStatus(
+    id: number,
+    status: LMCCampaignStatus,
+  ): Promise<LMCResponse<LMCCampaign>> {
+    if (!Number.isFinite(id)) {
+      return LMCResponse.error("id must be a number", { code: 400 });
+    }
+    return this.put<LMCCampaign>(`/campaigns/${id}/status`, { status });
+  }
+
+  private validateTemplateInput(
+    input: Partial<LMCTemplateInput>,
+  ): LMCResponse<LMCTemplate> | null {
+    if (!input.name?.trim()) {
+      return LMCResponse.error("name is required", { code: 400 });
+    }
+    if (
+      input.type !== "campaign" &&
+      input.type !== "campaign_visual" &&
+      input.type !== "tx"
+    ) {
+      return LMCResponse.error("type must be campaign, campaign_visual or tx", {
+        code: 400,
+      });
+    }
+    if (!input.body) {
+      return LMCResponse.error("body is required", { code: 400 });
+    }
+    if (input.type === "tx" && !input.subject?.trim()) {
+      return LMCResponse.error("subject is required for tx templates", {
+        code: 400,
+      });
+    }
+    return null;
+  }
+
+  private toCampaignInput(campaign: LMCCampaign): LMCCampaignInput {
+    return {
+      name: campaign.name,
+      subject: campaign.subject,
+      lists: (campaign.lists ?? [])
+        .map((l) => l.id)
+        .filter((listId) => Number.isFinite(listId)),
+      from_email: campaign.from_email,
+      type: campaign.type,
+      content_type: campaign.content_type,
+      body: campaign.body,
+      altbody: campaign.altbody ?? null,
+      send_at: campaign.send_at ?? null,
+      ...(campaign.messenger ? { messenger: campaign.messenger } : {}),
+      ...(typeof campaign.template_id === "number"
+        ? { template_id: campaign.template_id }
+        : {}),
+      tags: campaign.tags ?? [],
+      headers: campaign.headers ?? [],
+    };
+  }
+
+  private async findSubscriber(
+    identifier: LMCSubscriberIdentifier,
+  ): Promise<LMCResponse<LMCSubscriber>> {
     if (identifier.id !== undefined) {
       const res = await this.get<LMCSubscriber>(
         `/subscribers/${identifier.id}`,
@@ -1408,9 +4580,9 @@ export default class ListMonkClient {
     params.set("per_page", "1");
 
     if (identifier.uuid) {
-      params.set("query", this.buildEqualityQuery("uuid", identifier.uuid));
+      params.set("query", LMCQuery.eq("uuid", identifier.uuid).toString());
     } else if (identifier.email) {
-      params.set("query", this.buildEqualityQuery("email", identifier.email));
+      params.set("query", LMCQuery.eq("email", identifier.email).toString());
     } else {
       return LMCResponse.error("id, uuid, or email is required", {
         code: 400,
@@ -1433,21 +4605,37 @@ export default class ListMonkClient {
   }
 
   private translateStatus(status: LMCListMemberStatus): {
-    subscriptionStatus?: string;
+    subscriptionStatus?: LMCListSubscriptionStatus;
     query?: string;
   } {
     switch (status) {
       case "subscribed":
         return { subscriptionStatus: "confirmed" };
+      case "unconfirmed":
+        return { subscriptionStatus: "unconfirmed" };
       case "unsubscribed":
         return { subscriptionStatus: "unsubscribed" };
       case "blocked":
-        return { query: "subscribers.status = 'blocklisted'" };
+        return { query: LMCQuery.eq("status", "blocklisted").toString() };
       default:
         return {};
     }
   }
 
+  // Returns an error message when the configured validator rejects the attribs.
+  private checkAttribs(attribs: object): string | null {
+    if (!this.validateAttribs) return null;
+    try {
+      const verdict = this.validateAttribs(attribs as A);
+      if (verdict === true) return null;
+      return typeof verdict === "string" && verdict
+        ? verdict
+        : "attribs failed validation";
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }
+
   private areAttribsEqual(
     a?: LMCSubscriberAttribs,
     b?: LMCSubscriberAttribs,
@@ -1455,6 +4643,63 @@ export default class ListMonkClient {
     return this.stableStringify(a ?? {}) === this.stableStringify(b ?? {});
   }
 
+  private mergeAttribs(
+    existing: LMCSubscriberAttribs | undefined,
+    incoming: LMCSubscriberAttribs | undefined,
+    options: LMCAttribMergeOptions = {},
+  ): LMCSubscriberAttribs {
+    const result: LMCSubscriberAttribs = { ...(existing ?? {}) };
+    // No attribs in the update (e.g. a name-only change) means nothing to
+    // merge, so owned keys are kept rather than pruned.
+    if (incoming === undefined) {
+      return result;
+    }
+
+    // Owned keys are authoritative: one the caller no longer sends is removed.
+    // Incoming keys outside the set belong to other writers and are ignored,
+    // so full profiles can be fed in as they are.
+    const owned = options.ownedKeys;
+    owned?.forEach((key) => {
+      if (!(key in incoming)) delete result[key];
+    });
+
+    Object.entries(incoming).forEach(([key, value]) => {
+      if (owned && key !== "uid" && !owned.includes(key)) return;
+      const current = result[key];
+      const strategy = options.fields?.[key] ?? options.strategy ?? "replace";
+      if (current === undefined || strategy === "replace") {
+        result[key] = value;
+      } else if (strategy === "deep") {
+        result[key] = this.deepMergeJson(current, value, true);
+      } else if (strategy === "if-missing") {
+        result[key] = this.deepMergeJson(current, value, false);
+      }
+      // "keep-existing" leaves a present value alone.
+    });
+
+    return result;
+  }
+
+  private deepMergeJson(
+    base: JsonValue,
+    patch: JsonValue,
+    patchWins: boolean,
+  ): JsonValue {
+    const isObject = (v: JsonValue): v is { [key: string]: JsonValue } =>
+      v !== null && typeof v === "object" && !Array.isArray(v);
+    if (!isObject(base) || !isObject(patch)) {
+      return patchWins ? patch : base;
+    }
+    const merged: { [key: string]: JsonValue } = { ...base };
+    Object.entries(patch).forEach(([key, value]) => {
+      merged[key] =
+        merged[key] === undefined
+          ? value
+          : this.deepMergeJson(merged[key], value, patchWins);
+    });
+    return merged;
+  }
+
   private stableStringify(value: JsonValue): string {
     if (value === null || typeof value !== "object") {
       return JSON.stringify(value);
@@ -1472,11 +4717,6 @@ export default class ListMonkClient {
       .join(",")}}`;
   }
 
-  private buildEqualityQuery(field: string, value: string): string {
-    const escaped = value.replace(/'/g, "''");
-    return `${field} = '${escaped}'`;
-  }
-
   private async getListNameMap(
     subscriberLists?: Array<LMCSubscription | LMCListRecord>,
   ): Promise<Map<number, string>> {
@@ -1514,6 +4754,80 @@ export default class ListMonkClient {
     return map;
   }
 
+  private progressTracker(onProgress?: (progress: LMCProgress) => void): {
+    tally: LMCProgressCounts;
+    progress: (
+      phase: LMCProgressPhase,
+      processed: number,
+      total: number,
+    ) => void;
+  } {
+    const tally: LMCProgressCounts = {
+      created: 0,
+      updated: 0,
+      added: 0,
+      resubscribed: 0,
+      skipped: 0,
+      removed: 0,
+      failed: 0,
+    };
+    return {
+      tally,
+      progress: (phase, processed, total) => {
+        this.notify("onProgress", onProgress, {
+          phase,
+          processed,
+          total,
+          counts: { ...tally },
+        });
+      },
+    };
+  }
+
+  private static emptyPlan(): LMCSyncPlan {
+    return {
+      create: [],
+      update: [],
+      resubscribe: [],
+      attach: [],
+      detach: [],
+      skippedBlocklisted: [],
+      skippedUnsubscribed: [],
+      unchanged: [],
+    };
+  }
+
+  private invalidateListCache(): void {
+    this.listCache = undefined;
+  }
+
+  private validateListInput(
+    input: Partial<LMCListInput>,
+  ): LMCResponse<LMCListRecord> | null {
+    if (!input.name?.trim()) {
+      return LMCResponse.error("name is required", { code: 400 });
+    }
+    if (
+      input.type !== undefined &&
+      input.type !== "public" &&
+      input.type !== "private"
+    ) {
+      return LMCResponse.error("type must be public or private", {
+        code: 400,
+      });
+    }
+    if (
+      input.optin !== undefined &&
+      input.optin !== "single" &&
+      input.optin !== "double"
+    ) {
+      return LMCResponse.error("optin must be single or double", {
+        code: 400,
+      });
+    }
+    return null;
+  }
+
   private describeListStatus(
     listId: number,
     context: {
@@ -0,0 +1,940 @@
+import type {
+  LMCFetch,
+  LMCHttpMethod,
+  LMCListOptin,
+  LMCListRecord,
+  LMCListSubscriptionStatus,
+  LMCListVisibility,
+  LMCSubscriber,
+  LMCSubscriberAttribs,
+} from "./listmonk-client.js";
+
+export type LMCMockSubscriberStatus = "enabled" | "disabled" | "blocklisted";
+
+export interface LMCMockListInput {
+  id?: number;
+  name: string;
+  type?: LMCListVisibility;
+  optin?: LMCListOptin;
+  tags?: string[];
+  description?: string;
+}
+
+export interface LMCMockSubscriberInput {
+  id?: number;
+  email: string;
+  name?: string;
+  attribs?: LMCSubscriberAttribs;
+  status?: LMCMockSubscriberStatus;
+  lists?: Array<number | { id: number; status?: LMCListSubscriptionStatus }>;
+}
+
+export interface LMCMockServerOptions {
+  // Path prefix of the API in the client's apiURL (default "/api").
+  basePath?: string;
+  lists?: LMCMockListInput[];
+  subscribers?: LMCMockSubscriberInput[];
+}
+
+export interface LMCMockRequest {
+  method: LMCHttpMethod;
+  path: string;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+interface StoredSubscriber {
+  id: number;
+  uuid: string;
+  email: string;
+  name: string;
+  attribs: LMCSubscriberAttribs;
+  status: LMCMockSubscriberStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+interface StoredList {
+  id: number;
+  uuid: string;
+  name: string;
+  type: LMCListVisibility;
+  optin: LMCListOptin;
+  tags: string[];
+  description: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface StoredMembership {
+  status: LMCListSubscriptionStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MockFailure {
+  method: LMCHttpMethod;
+  path: string | RegExp;
+  status: number;
+  message: string;
+  times: number;
+}
+
+type MockResult = { status: number; body: unknown };
+
+const SUBSCRIBER_STATUSES: LMCMockSubscriberStatus[] = [
+  "enabled",
+  "disabled",
+  "blocklisted",
+];
+
+class MockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function mockUuid(kind: number, id: number): string {
+  return `00000000-0000-4000-800${kind}-${String(id).padStart(12, "0")}`;
+}
+
+function asIds(value: unknown, field: string): number[] {
+  if (!Array.isArray(value) || !value.every((id) => Number.isInteger(id))) {
+    throw new MockHttpError(400, `invalid ${field}`);
+  }
+  return value as number[];
+}
+
+export class LMCMockServer {
+  readonly requests: LMCMockRequest[] = [];
+  private basePath: string;
+  private subscribers = new Map<number, StoredSubscriber>();
+  private lists = new Map<number, StoredList>();
+  private memberships = new Map<number, Map<number, StoredMembership>>();
+  private failures: MockFailure[] = [];
+  private nextSubscriberId = 1;
+  private nextListId = 1;
+
+  constructor(options: LMCMockServerOptions = {}) {
+    this.basePath = (options.basePath ?? "/api").replace(/\/$/, "");
+    options.lists?.forEach((list) => this.addList(list));
+    options.subscribers?.forEach((subscriber) =>
+      this.addSubscriber(subscriber),
+    );
+  }
+
+  // Pass as `fetch` in the client config.
+  readonly fetch: LMCFetch = async (input, init = {}) => {
+    const url = new URL(input);
+    const method = (init.method ?? "GET").toUpperCase() as LMCHttpMethod;
+    const path = url.pathname.startsWith(`${this.basePath}/`)
+      ? url.pathname.slice(this.basePath.length)
+      : url.pathname;
+    let body: unknown = undefined;
+    if (typeof init.body === "string" && init.body) {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        return this.respond({ status: 400, body: { message: "invalid JSON" } });
+      }
+    }
+    this.requests.push({ method, path, query: url.searchParams, body });
+
+    const failure = this.failures.find(
+      (entry) =>
+        entry.method === method &&
+        (typeof entry.path === "string"
+          ? entry.path === path
+          : entry.path.test(path)),
+    );
+    if (failure) {
+      failure.times -= 1;
+      if (failure.times <= 0) {
+        this.failures.splice(this.failures.indexOf(failure), 1);
+      }
+      return this.respond({
+        status: failure.status,
+        body: { message: failure.message },
+      });
+    }
+
+    try {
+      return this.respond(this.route(method, path, url.searchParams, body));
+    } catch (err) {
+      if (err instanceof MockHttpError) {
+        return this.respond({
+          status: err.status,
+          body: { message: err.message },
+        });
+      }
+      throw err;
+    }
+  };
+
+  addList(input: LMCMockListInput): LMCListRecord {
+    const id = input.id ?? this.nextListId;
+    this.nextListId = Math.max(this.nextListId, id + 1);
+    const now = new Date().toISOString();
+    this.lists.set(id, {
+      id,
+      uuid: mockUuid(1, id),
+      name: input.name,
+      type: input.type ?? "private",
+      optin: input.optin ?? "single",
+      tags: input.tags ?? [],
+      description: input.description ?? "",
+      created_at: now,
+      updated_at: now,
+    });
+    return this.listJson(id);
+  }
+
+  addSubscriber(input: LMCMockSubscriberInput): LMCSubscriber {
+    const subscriber = this.createSubscriber(input, input.id);
+    input.lists?.forEach((entry) => {
+      const listId = typeof entry === "number" ? entry : entry.id;
+      const status = typeof entry === "number" ? undefined : entry.status;
+      this.subscribe(subscriber, listId, status ?? "confirmed");
+    });
+    return this.subscriberJson(subscriber);
+  }
+
+  getSubscriber(idOrEmail: number | string): LMCSubscriber | null {
+    const subscriber =
+      typeof idOrEmail === "number"
+        ? this.subscribers.get(idOrEmail)
+        : this.findByEmail(idOrEmail);
+    return subscriber ? this.subscriberJson(subscriber) : null;
+  }
+
+  getSubscribers(): LMCSubscriber[] {
+    return Array.from(this.subscribers.values()).map((s) =>
+      this.subscriberJson(s),
+    );
+  }
+
+  getLists(): LMCListRecord[] {
+    return Array.from(this.lists.keys()).map((id) => this.listJson(id));
+  }
+
+  getMembership(
+    subscriberId: number,
+    listId: number,
+  ): LMCListSubscriptionStatus | null {
+    return this.memberships.get(subscriberId)?.get(listId)?.status ?? null;
+  }
+
+  // Makes the next `times` matching requests fail with the given status.
+  failOn(
+    method: LMCHttpMethod,
+    path: string | RegExp,
+    status = 500,
+    message = "Mock failure",
+    times = 1,
+  ): this {
+    this.failures.push({ method, path, status, message, times });
+    return this;
+  }
+
+  reset(): void {
+    this.subscribers.clear();
+    this.lists.clear();
+    this.memberships.clear();
+    this.failures = [];
+    this.requests.length = 0;
+    this.nextSubscriberId = 1;
+    this.nextListId = 1;
+  }
+
+  private respond(result: MockResult): Response {
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  private route(
+    method: LMCHttpMethod,
+    path: string,
+    query: URLSearchParams,
+    body: unknown,
+  ): MockResult {
+    const input = (body ?? {}) as Record<string, unknown>;
+    const idMatch = /^\/(subscribers|lists)\/(\d+)$/.exec(path);
+    const id = idMatch ? Number(idMatch[2]) : NaN;
+
+    if (path === "/subscribers") {
+      if (method === "GET") return this.ok(this.querySubscribers(query));
+      if (method === "POST") return this.ok(this.postSubscriber(input));
+      if (method === "DELETE") {
+        query.getAll("id").forEach((value) => this.removeSubscriber(+value));
+        return this.ok(true);
+      }
+    }
+    if (idMatch?.[1] === "subscribers") {
+      const subscriber = this.subscribers.get(id);
+      if (!subscriber) {
+        throw new MockHttpError(404, "Subscriber not found");
+      }
+      if (method === "GET") return this.ok(this.subscriberJson(subscriber));
+      if (method === "PUT")
+        return this.ok(this.putSubscriber(subscriber, input));
+      if (method === "DELETE") {
+        this.removeSubscriber(id);
+        return this.ok(true);
+      }
+    }
+    const optinMatch = /^\/subscribers\/(\d+)\/optin$/.exec(path);
+    if (method === "POST" && optinMatch) {
+      const subscriberId = Number(optinMatch[1]);
+      if (!this.subscribers.has(subscriberId)) {
+        throw new MockHttpError(404, "Subscriber not found");
+      }
+      const pending = Array.from(
+        this.memberships.get(subscriberId)?.entries() ?? [],
+      ).filter(
+        ([listId, m]) =>
+          m.status === "unconfirmed" &&
+          this.lists.get(listId)?.optin === "double",
+      );
+      if (pending.length === 0) {
+        throw new MockHttpError(400, "There are no lists to opt-in.");
+      }
+      return this.ok(true);
+    }
+    if (method === "PUT" && path === "/subscribers/blocklist") {
+      asIds(input.ids, "ids").forEach((subscriberId) => {
+        const subscriber = this.subscribers.get(subscriberId);
+        if (subscriber) this.setStatus(subscriber, "blocklisted");
+      });
+      return this.ok(true);
+    }
+    const listsMatch = /^\/subscribers\/lists(?:\/(\d+))?$/.exec(path);
+    if (method === "PUT" && listsMatch) {
+      const targets = listsMatch[1]
+        ? [Number(listsMatch[1])]
+        : asIds(input.target_list_ids, "target_list_ids");
+      this.manageLists(asIds(input.ids, "ids"), targets, input);
+      return this.ok(true);
+    }
+
+    if (path === "/lists") {
+      if (method === "GET") return this.ok(this.queryLists(query));
+      if (method === "POST") {
+        if (typeof input.name !== "string" || !input.name.trim()) {
+          throw new MockHttpError(400, "invalid name");
+        }
+        return this.ok(
+          this.addList({
+            name: input.name.trim(),
+            type: input.type as LMCListVisibility | undefined,
+            optin: input.optin as LMCListOptin | undefined,
+            tags: input.tags as string[] | undefined,
+            description: input.description as string | undefined,
+          }),
+        );
+      }
+    }
+    if (idMatch?.[1] === "lists") {
+      const list = this.lists.get(id);
+      if (!list) {
+        throw new MockHttpError(404, "List not found");
+      }
+      if (method === "GET") return this.ok(this.listJson(id));
+      if (method === "PUT") {
+        (["name", "type", "optin", "tags", "description"] as const).forEach(
+          (key) => {
+            if (input[key] !== undefined) {
+              Object.assign(list, { [key]: input[key] });
+            }
+          },
+        );
+        list.updated_at = new Date().toISOString();
+        return this.ok(this.listJson(id));
+      }
+      if (method === "DELETE") {
+        this.lists.delete(id);
+        this.memberships.forEach((lists) => lists.delete(id));
+        return this.ok(true);
+      }
+    }
+
+    throw new MockHttpError(404, `Unknown endpoint: ${method} ${path}`);
+  }
+
+  private ok(data: unknown): MockResult {
+    return { status: 200, body: { data } };
+  }
+
+  private querySubscribers(query: URLSearchParams) {
+    const listIds = query.getAll("list_id").map(Number);
+    const subscriptionStatus = query.get("subscription_status");
+    const sql = query.get("query");
+    const matches = sql ? compileQuery(sql) : () => true;
+
+    const results = Array.from(this.subscribers.values())
+      .filter((subscriber) => {
+        const lists = this.memberships.get(subscriber.id) ?? new Map();
+        const relevant =
+          listIds.length > 0
+            ? listIds
+                .map((listId) => lists.get(listId))
+                .filter((m): m is StoredMembership => m !== undefined)
+            : Array.from(lists.values());
+        if (listIds.length > 0 && relevant.length === 0) return false;
+        if (
+          subscriptionStatus &&
+          !relevant.some((m) => m.status === subscriptionStatus)
+        ) {
+          return false;
+        }
+        return matches(subscriber);
+      })
+      .sort((a, b) => a.id - b.id);
+
+    const { page, perPage, items } = paginate(results, query);
+    return {
+      results: items.map((subscriber) => this.subscriberJson(subscriber)),
+      query: sql ?? "",
+      total: results.length,
+      per_page: perPage,
+      page,
+    };
+  }
+
+  private queryLists(query: URLSearchParams) {
+    const type = query.get("type");
+    const results = Array.from(this.lists.values())
+      .filter((list) => !type || list.type === type)
+      .sort((a, b) => a.id - b.id);
+    const { page, perPage, items } = paginate(results, query);
+    return {
+      results: items.map((list) => this.listJson(list.id)),
+      total: results.length,
+      per_page: perPage,
+      page,
+    };
+  }
+
+  private postSubscriber(input: Record<string, unknown>): LMCSubscriber {
+    const status = (input.status ?? "enabled") as LMCMockSubscriberStatus;
+    const subscriber = this.createSubscriber({
+      email: input.email as string,
+      name: input.name as string | undefined,
+      attribs: input.attribs as LMCSubscriberAttribs | undefined,
+      status,
+    });
+    const listIds =
+      input.lists === undefined ? [] : asIds(input.lists, "lists");
+    listIds.forEach((listId) =>
+      this.subscribe(
+        subscriber,
+        listId,
+        this.initialStatus(listId, input.preconfirm_subscriptions === true),
+      ),
+    );
+    return this.subscriberJson(subscriber);
+  }
+
+  private putSubscriber(
+    subscriber: StoredSubscriber,
+    input: Record<string, unknown>,
+  ): LMCSubscriber {
+    if (input.email !== undefined) {
+      const email = this.checkEmail(input.email, subscriber.id);
+      subscriber.email = email;
+    }
+    if (typeof input.name === "string") {
+      subscriber.name = input.name;
+    }
+    if (input.attribs !== undefined) {
+      subscriber.attribs = structuredClone(
+        input.attribs as LMCSubscriberAttribs,
+      );
+    }
+    if (input.lists !== undefined) {
+      const listIds = asIds(input.lists, "lists");
+      const lists = this.memberships.get(subscriber.id);
+      lists?.forEach((_, listId) => {
+        if (!listIds.includes(listId)) lists.delete(listId);
+      });
+      listIds.forEach((listId) => {
+        if (!lists?.has(listId)) {
+          this.subscribe(
+            subscriber,
+            listId,
+            this.initialStatus(listId, input.preconfirm_subscriptions === true),
+          );
+        }
+      });
+    }
+    if (input.status !== undefined) {
+      this.setStatus(subscriber, this.checkStatus(input.status));
+    }
+    subscriber.updated_at = new Date().toISOString();
+    return this.subscriberJson(subscriber);
+  }
+
+  private manageLists(
+    ids: number[],
+    listIds: number[],
+    input: Record<string, unknown>,
+  ) {
+    const action = input.action;
+    if (action !== "add" && action !== "remove" && action !== "unsubscribe") {
+      throw new MockHttpError(400, "invalid action");
+    }
+    ids.forEach((subscriberId) => {
+      const subscriber = this.subscribers.get(subscriberId);
+      if (!subscriber) return;
+      listIds.forEach((listId) => {
+        const membership = this.memberships.get(subscriberId)?.get(listId);
+        if (action === "remove") {
+          this.memberships.get(subscriberId)?.delete(listId);
+        } else if (action === "unsubscribe") {
+          if (membership) this.touch(membership, "unsubscribed");
+        } else if (input.status !== undefined) {
+          // An explicit status also moves existing subscriptions.
+          this.subscribe(
+            subscriber,
+            listId,
+            input.status as LMCListSubscriptionStatus,
+          );
+        } else if (!membership || membership.status === "unsubscribed") {
+          this.subscribe(subscriber, listId, this.initialStatus(listId, false));
+        }
+      });
+    });
+  }
+
+  private createSubscriber(
+    input: LMCMockSubscriberInput,
+    id = this.nextSubscriberId,
+  ): StoredSubscriber {
+    const email = this.checkEmail(input.email);
+    if (this.subscribers.has(id)) {
+      throw new MockHttpError(409, "Subscriber id already exists.");
+    }
+    this.nextSubscriberId = Math.max(this.nextSubscriberId, id + 1);
+    const now = new Date().toISOString();
+    const subscriber: StoredSubscriber = {
+      id,
+      uuid: mockUuid(0, id),
+      email,
+      name: input.name || email.split("@")[0],
+      attribs: structuredClone(input.attribs ?? {}),
+      status: this.checkStatus(input.status ?? "enabled"),
+      created_at: now,
+      updated_at: now,
+    };
+    this.subscribers.set(id, subscriber);
+    this.memberships.set(id, new Map());
+    return subscriber;
+  }
+
+  private removeSubscriber(id: number) {
+    this.subscribers.delete(id);
+    this.memberships.delete(id);
+  }
+
+  private checkEmail(value: unknown, selfId?: number): string {
+    const email = typeof value === "string" ? value.trim() : "";
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+      throw new MockHttpError(400, "invalid email");
+    }
+    const existing = this.findByEmail(email);
+    if (existing && existing.id !== selfId) {
+      throw new MockHttpError(409, "E-mail already exists.");
+    }
+    return email;
+  }
+
+  private checkStatus(value: unknown): LMCMockSubscriberStatus {
+    if (!SUBSCRIBER_STATUSES.includes(value as LMCMockSubscriberStatus)) {
+      throw new MockHttpError(400, "invalid status");
+    }
+    return value as LMCMockSubscriberStatus;
+  }
+
+  private findByEmail(email: string): StoredSubscriber | undefined {
+    const needle = email.trim().toLowerCase();
+    return Array.from(this.subscribers.values()).find(
+      (s) => s.email.toLowerCase() === needle,
+    );
+  }
+
+  // Like Listmonk, double opt-in lists start unconfirmed unless preconfirmed.
+  private initialStatus(
+    listId: number,
+    preconfirm: boolean,
+  ): LMCListSubscriptionStatus {
+    return !preconfirm && this.lists.get(listId)?.optin === "double"
+      ? "unconfirmed"
+      : "confirmed";
+  }
+
+  private subscribe(
+    subscriber: StoredSubscriber,
+    listId: number,
+    status: LMCListSubscriptionStatus,
+  ) {
+    if (!this.lists.has(listId)) return;
+    const lists = this.memberships.get(subscriber.id) ?? new Map();
+    this.memberships.set(subscriber.id, lists);
+    const now = new Date().toISOString();
+    const membership = lists.get(listId) ?? {
+      status,
+      created_at: now,
+      updated_at: now,
+    };
+    lists.set(listId, membership);
+    this.touch(
+      membership,
+      subscriber.status === "blocklisted" ? "unsubscribed" : status,
+    );
+  }
+
+  private setStatus(
+    subscriber: StoredSubscriber,
+    status: LMCMockSubscriberStatus,
+  ) {
+    subscriber.status = status;
+    subscriber.updated_at = new Date().toISOString();
+    if (status === "blocklisted") {
+      this.memberships
+        .get(subscriber.id)
+        ?.forEach((membership) => this.touch(membership, "unsubscribed"));
+    }
+  }
+
+  private touch(
+    membership: StoredMembership,
+    status: LMCListSubscriptionStatus,
+  ) {
+    membership.status = status;
+    membership.updated_at = new Date().toISOString();
+  }
+
+  private listJson(id: number): LMCListRecord {
+    const list = this.lists.get(id) as StoredList;
+    let count = 0;
+    this.memberships.forEach((lists) => {
+      if (lists.has(id)) count += 1;
+    });
+    return { ...structuredClone(list), subscriber_count: count };
+  }
+
+  private subscriberJson(subscriber: StoredSubscriber): LMCSubscriber {
+    const lists: LMCListRecord[] = [];
+    this.memberships.get(subscriber.id)?.forEach((membership, listId) => {
+      const list = this.lists.get(listId);
+      if (!list) return;
+      lists.push({
+        ...structuredClone(list),
+        subscription_status: membership.status,
+        subscription_created_at: membership.created_at,
+        subscription_updated_at: membership.updated_at,
+      } as LMCListRecord);
+    });
+    return { ...structuredClone(subscriber), lists };
+  }
+}
+
+function paginate<T>(items: T[], query: URLSearchParams) {
+  const rawPerPage = query.get("per_page");
+  const page = Math.max(1, Number(query.get("page") ?? 1) || 1);
+  if (rawPerPage === "all") {
+    return { page: 1, perPage: items.length, items };
+  }
+  const perPage = Math.max(1, Number(rawPerPage ?? 20) || 20);
+  return {
+    page,
+    perPage,
+    items: items.slice((page - 1) * perPage, page * perPage),
+  };
+}
+
+// A small evaluator for the SQL subset that LMCQuery produces: comparisons,
+// IN, LIKE/ILIKE, IS NULL, AND/OR/NOT, attribs paths and ::casts.
+type Token = { type: "str" | "num" | "op" | "word"; value: string };
+type Operand = (subscriber: StoredSubscriber) => unknown;
+type Predicate = (subscriber: StoredSubscriber) => boolean;
+
+const TOKEN_PATTERN =
+  /\s*(?:'((?:[^']|'')*)'|(-?\d+(?:\.\d+)?)|(->>|->|::|<>|!=|<=|>=|[=<>(),])|([A-Za-z_][\w.]*))/y;
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (sql.slice(TOKEN_PATTERN.lastIndex).trim()) {
+    const match = TOKEN_PATTERN.exec(sql);
+    if (!match) {
+      throw new MockHttpError(
+        400,
+        `Unsupported query near: ${sql.slice(TOKEN_PATTERN.lastIndex)}`,
+      );
+    }
+    if (match[1] !== undefined) {
+      tokens.push({ type: "str", value: match[1].replace(/''/g, "'") });
+    } else if (match[2] !== undefined) {
+      tokens.push({ type: "num", value: match[2] });
+    } else if (match[3] !== undefined) {
+      tokens.push({ type: "op", value: match[3] });
+    } else {
+      tokens.push({ type: "word", value: match[4] });
+    }
+  }
+  return tokens;
+}
+
+function compileQuery(sql: string): Predicate {
+  const tokens = tokenize(sql);
+  let pos = 0;
+
+  const fail = (): never => {
+    throw new MockHttpError(400, `Unsupported query: ${sql}`);
+  };
+  const peek = (offset = 0): Token | undefined => tokens[pos + offset];
+  const isWord = (word: string) => isKeyword(peek(), word);
+  const isOp = (op: string) => peek()?.type === "op" && peek()?.value === op;
+  const expect = (op: string) => (isOp(op) ? (pos += 1) : fail());
+
+  const operand = (): Operand => {
+    const token = peek() ?? fail();
+    pos += 1;
+    let value: Operand;
+    if (token.type === "op" && token.value === "(") {
+      value = operand();
+      expect(")");
+    } else if (token.type === "str") {
+      value = () => token.value;
+    } else if (token.type === "num") {
+      value = () => Number(token.value);
+    } else if (isKeyword(token, "TRUE") || isKeyword(token, "FALSE")) {
+      value = () => isKeyword(token, "TRUE");
+    } else if (
+      token.type === "word" &&
+      token.value.startsWith("subscribers.")
+    ) {
+      value = column(token.value.slice("subscribers.".length));
+    } else {
+      return fail();
+    }
+    if (isOp("::")) {
+      pos += 1;
+      const type = peek()?.type === "word" ? peek()?.value : fail();
+      pos += 1;
+      value = cast(value, String(type).toLowerCase());
+    }
+    return value;
+  };
+
+  const column = (name: string): Operand => {
+    if (name !== "attribs") {
+      return (s) => (s as unknown as Record<string, unknown>)[name];
+    }
+    let value: Operand = (s) => s.attribs;
+    while (isOp("->") || isOp("->>")) {
+      const asText = peek()?.value === "->>";
+      pos += 1;
+      const key = peek()?.type === "str" ? String(peek()?.value) : fail();
+      pos += 1;
+      const parent = value;
+      value = (s) => {
+        const base = parent(s);
+        const child =
+          base && typeof base === "object" && !Array.isArray(base)
+            ? (base as Record<string, unknown>)[key]
+            : undefined;
+        return asText ? jsonText(child) : child;
+      };
+      if (asText) break;
+    }
+    return value;
+  };
+
+  const comparison = (): Predicate => {
+    const bare = isWord("TRUE") || isWord("FALSE");
+    const left = operand();
+    if (bare && (!peek() || isOp(")") || isWord("AND") || isWord("OR"))) {
+      return (s) => left(s) === true;
+    }
+    if (isWord("IS")) {
+      pos += 1;
+      const negate = isWord("NOT") ? ((pos += 1), true) : false;
+      if (!isWord("NULL")) fail();
+      pos += 1;
+      return (s) => (left(s) == null) !== negate;
+    }
+    const negate = isWord("NOT") ? ((pos += 1), true) : false;
+    if (isWord("IN")) {
+      pos += 1;
+      expect("(");
+      const values: Operand[] = [operand()];
+      while (isOp(",")) {
+        pos += 1;
+        values.push(operand());
+      }
+      expect(")");
+      return (s) =>
+        values.some((value) => compare(left(s), value(s)) === 0) !== negate;
+    }
+    if (isWord("LIKE") || isWord("ILIKE")) {
+      const flags = isWord("ILIKE") ? "i" : "";
+      pos += 1;
+      const pattern = operand();
+      return (s) => {
+        const text = left(s);
+        const regex = likePattern(String(pattern(s)), flags);
+        return typeof text === "string" && regex.test(text) !== negate;
+      };
+    }
+    const op = peek()?.type === "op" ? String(peek()?.value) : fail();
+    pos += 1;
+    const right = operand();
+    return (s) => {
+      const order = compare(left(s), right(s));
+      if (order === null) return false;
+      switch (op) {
+        case "=":
+          return order === 0;
+        case "<>":
+        case "!=":
+          return order !== 0;
+        case "<":
+          return order < 0;
+        case "<=":
+          return order <= 0;
+        case ">":
+          return order > 0;
+        case ">=":
+          return order >= 0;
+        default:
+          return fail();
+      }
+    };
+  };
+
+  const primary = (): Predicate => {
+    const start = pos;
+    try {
+      return comparison();
+    } catch (err) {
+      if (!(err instanceof MockHttpError) || tokens[start]?.value !== "(") {
+        throw err;
+      }
+      pos = start + 1;
+    }
+    const inner = or();
+    expect(")");
+    return inner;
+  };
+
+  const not = (): Predicate => {
+    if (isWord("NOT")) {
+      pos += 1;
+      const inner = not();
+      return (s) => !inner(s);
+    }
+    return primary();
+  };
+
+  const and = (): Predicate => {
+    let left = not();
+    while (isWord("AND")) {
+      pos += 1;
+      const prev = left;
+      const right = not();
+      left = (s) => prev(s) && right(s);
+    }
+    return left;
+  };
+
+  const or = (): Predicate => {
+    let left = and();
+    while (isWord("OR")) {
+      pos += 1;
+      const prev = left;
+      const right = and();
+      left = (s) => prev(s) || right(s);
+    }
+    return left;
+  };
+
+  const predicate = or();
+  if (pos < tokens.length) fail();
+  return predicate;
+}
+
+function isKeyword(token: Token | undefined, word: string): boolean {
+  return token?.type === "word" && token.value.toUpperCase() === word;
+}
+
+function jsonText(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function cast(value: Operand, type: string): Operand {
+  return (s) => {
+    const raw = value(s);
+    if (raw === null || raw === undefined) return null;
+    switch (type) {
+      case "numeric":
+        return Number.isNaN(Number(raw)) ? null : Number(raw);
+      case "boolean":
+        return raw === "true" || raw === true
+          ? true
+          : raw === "false" || raw === false
+            ? false
+            : null;
+      case "timestamptz":
+        return Number.isNaN(Date.parse(String(raw)))
+          ? null
+          : Date.parse(String(raw));
+      default:
+        return String(raw);
+    }
+  };
+}
+
+// Orders two SQL values, or returns null when either side is NULL.
+function compare(a: unknown, b: unknown): number | null {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return null;
+  }
+  if (typeof a === "number" || typeof b === "number") {
+    const left = typeof a === "number" ? a : toNumber(a);
+    const right = typeof b === "number" ? b : toNumber(b);
+    return left === right ? 0 : left < right ? -1 : 1;
+  }
+  const left = String(a);
+  const right = String(b);
+  return left === right ? 0 : left < right ? -1 : 1;
+}
+
+function toNumber(value: unknown): number {
+  const number = Number(value);
+  return Number.isNaN(number) ? Date.parse(String(value)) : number;
+}
+
+function likePattern(pattern: string, flags: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i += 1) {
+    const char = pattern[i];
+    if (char === "\\" && i + 1 < pattern.length) {
+      i += 1;
+      source += pattern[i].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    } else if (char === "%") {
+      source += ".*";
+    } else if (char === "_") {
+      source += ".";
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, `${flags}s`);
+}
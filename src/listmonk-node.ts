@@ -0,0 +1,50 @@
+import { readFile, rename, writeFile } from "node:fs/promises";
+
+import type {
+  LMCCheckpointStore,
+  LMCSyncCheckpoint,
+} from "./listmonk-client.js";
+
+// Node-only helpers, kept out of the main entry so the client bundles for
+// browsers and edge runtimes.
+export class LMCFileCheckpointStore implements LMCCheckpointStore {
+  constructor(private path: string) {}
+
+  async load(jobId: string): Promise<LMCSyncCheckpoint | null> {
+    const checkpoints = await this.readAll();
+    return checkpoints[jobId] ?? null;
+  }
+
+  async save(checkpoint: LMCSyncCheckpoint): Promise<void> {
+    const checkpoints = await this.readAll();
+    checkpoints[checkpoint.jobId] = checkpoint;
+    await this.writeAll(checkpoints);
+  }
+
+  async clear(jobId: string): Promise<void> {
+    const checkpoints = await this.readAll();
+    if (!(jobId in checkpoints)) return;
+    delete checkpoints[jobId];
+    await this.writeAll(checkpoints);
+  }
+
+  private async readAll(): Promise<Record<string, LMCSyncCheckpoint>> {
+    try {
+      return JSON.parse(await readFile(this.path, "utf8"));
+    } catch (err) {
+      if ((err as { code?: string }).code === "ENOENT") {
+        return {};
+      }
+      throw err;
+    }
+  }
+
+  private async writeAll(
+    checkpoints: Record<string, LMCSyncCheckpoint>,
+  ): Promise<void> {
+    // Write then rename so a crash mid-write never leaves a truncated file.
+    const tmpPath = `${this.path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(checkpoints, null, 2), "utf8");
+    await rename(tmpPath, this.path);
+  }
+}
@@ -0,0 +1,179 @@
+import { LMCResponse } from "./listmonk-client.js";
+
+import type { LMCFetch } from "./listmonk-client.js";
+
+export interface LMCPublicConfig {
+  // Listmonk root URL; a trailing "/api" is ignored.
+  baseURL: string;
+  fetch?: LMCFetch;
+  timeoutMS?: number;
+}
+
+export interface LMCPublicList {
+  uuid: string;
+  name: string;
+}
+
+export interface LMCPublicCaptcha {
+  hcaptcha?: string;
+  altcha?: string;
+}
+
+export interface LMCPublicSubscribeInput {
+  email: string;
+  name?: string;
+  listUUIDs: string[];
+  captcha?: LMCPublicCaptcha;
+}
+
+export interface LMCPublicSubscribeResult {
+  // null when submitted through the form endpoint, which does not report it.
+  hasOptin: boolean | null;
+}
+
+export class LMCPublicClient {
+  private baseUrl: string;
+  private fetchImpl: LMCFetch;
+  private timeoutMs: number;
+
+  constructor(config: LMCPublicConfig) {
+    if (!config?.baseURL) {
+      throw new Error("baseURL is required");
+    }
+    this.baseUrl = config.baseURL.replace(/\/+$/, "").replace(/\/api$/, "");
+    this.timeoutMs = config.timeoutMS ?? 15_000;
+    this.fetchImpl = config.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  async listPublicLists(): Promise<LMCResponse<LMCPublicList[]>> {
+    const res = await this.send<LMCPublicList[]>("GET", "/api/public/lists");
+    if (res.success && !Array.isArray(res.data)) {
+      return LMCResponse.error("Unexpected response while fetching lists", {
+        code: res.code,
+        errorCode: "PARSE",
+      });
+    }
+    return res;
+  }
+
+  async subscribe(
+    input: LMCPublicSubscribeInput,
+  ): Promise<LMCResponse<LMCPublicSubscribeResult>> {
+    const email = input.email?.trim();
+    if (!email) {
+      return LMCResponse.error("email is required", { code: 400 });
+    }
+    const listUUIDs = input.listUUIDs ?? [];
+    if (
+      listUUIDs.length === 0 ||
+      !listUUIDs.every((uuid) => typeof uuid === "string" && uuid.trim())
+    ) {
+      return LMCResponse.error("listUUIDs must be a non-empty array", {
+        code: 400,
+      });
+    }
+
+    // Listmonk only verifies captchas on the HTML form endpoint.
+    const { hcaptcha, altcha } = input.captcha ?? {};
+    if (!hcaptcha && !altcha) {
+      const res = await this.send<{ has_optin?: boolean }>(
+        "POST",
+        "/api/public/subscription",
+        JSON.stringify({
+          email,
+          name: input.name ?? "",
+          list_uuids: listUUIDs,
+        }),
+      );
+      if (!res.success) {
+        return res as unknown as LMCResponse<LMCPublicSubscribeResult>;
+      }
+      return LMCResponse.ok(
+        { hasOptin: res.data?.has_optin ?? null },
+        { code: res.code, message: "Subscribed" },
+      );
+    }
+
+    const form = new URLSearchParams();
+    form.set("email", email);
+    form.set("name", input.name ?? "");
+    listUUIDs.forEach((uuid) => form.append("l", uuid));
+    // Listmonk treats a filled "nonce" field as a bot, so it is sent empty.
+    form.set("nonce", "");
+    if (hcaptcha) form.set("h-captcha-response", hcaptcha);
+    if (altcha) form.set("altcha", altcha);
+    const res = await this.send<string>("POST", "/subscription/form", form);
+    if (!res.success) {
+      return res as unknown as LMCResponse<LMCPublicSubscribeResult>;
+    }
+    return LMCResponse.ok(
+      { hasOptin: null },
+      { code: res.code, message: "Subscribed" },
+    );
+  }
+
+  private async send<T>(
+    method: "GET" | "POST",
+    path: string,
+    body?: string | URLSearchParams,
+  ): Promise<LMCResponse<T>> {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (typeof body === "string") {
+      headers["Content-Type"] = "application/json";
+    }
+    const controller = new AbortController();
+    const id = setTimeout(() => controller.abort(), this.timeoutMs);
+    let res: Response;
+    try {
+      res = await this.fetchImpl(`${this.baseUrl}${path}`, {
+        method,
+        headers,
+        body,
+        signal: controller.signal,
+      });
+    } catch (err: unknown) {
+      return (err as { name?: string }).name === "AbortError"
+        ? LMCResponse.error("Request timed out", {
+            code: 504,
+            errorCode: "TIMEOUT",
+          })
+        : LMCResponse.error(err, { code: 500, errorCode: "NETWORK" });
+    } finally {
+      clearTimeout(id);
+    }
+
+    const text = await res.text().catch(() => "");
+    const isJson = (res.headers.get("content-type") ?? "")
+      .toLowerCase()
+      .includes("application/json");
+    let payload: { data?: T; message?: string } = {};
+    if (isJson && text) {
+      try {
+        payload = JSON.parse(text);
+      } catch (err: unknown) {
+        return LMCResponse.error(err, { code: res.status, errorCode: "PARSE" });
+      }
+    }
+    if (!res.ok) {
+      return LMCResponse.error(
+        payload.message ?? LMCPublicClient.htmlMessage(text) ?? res.statusText,
+        { code: res.status },
+      );
+    }
+    return LMCResponse.ok((isJson ? payload.data : text) as T, {
+      code: res.status,
+      message: payload.message ?? res.statusText,
+    });
+  }
+
+  // The form endpoint answers with an HTML page; its first paragraph holds
+  // the error message.
+  private static htmlMessage(html: string): string | undefined {
+    const match = /<p[^>]*>([\s\S]*?)<\/p>/i.exec(html);
+    const message = match?.[1]
+      .replace(/<[^>]+>/g, "")
+      .replace(/\s+/g, " ")
+      .trim();
+    return message || undefined;
+  }
+}
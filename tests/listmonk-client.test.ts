@@ -1,8 +1,19 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
 import ListMonkClient, {
+  LMCError,
+  LMCMemoryCheckpointStore,
+  LMCPublicClient,
+  LMCQuery,
+  LMCResponse,
   ListMonkClient as NamedListMonkClient,
 } from "../src/index.js";
+import { LMCMockServer } from "../src/listmonk-mock.js";
+import { LMCFileCheckpointStore } from "../src/listmonk-node.js";
 
-import type { LMCSubscriber } from "../src/index.js";
+import type { LMCCampaign, LMCSubscriber } from "../src/index.js";
 
 const baseConfig = {
   apiURL: "https://example.com/api",
@@ -475,4 +486,2197 @@ describe("ListMonkClient", () => {
       status: "enabled",
     });
   });
+
+  it("updates a campaign by merging onto the existing record", async () => {
+    const existing: LMCCampaign = {
+      id: 7,
+      uuid: "camp-7",
+      name: "Newsletter",
+      subject: "Hello",
+      from_email: "news@example.com",
+      status: "draft",
+      type: "regular",
+      content_type: "richtext",
+      body: "<p>Hi</p>",
+      tags: ["weekly"],
+      lists: [{ id: 1, name: "List 1" }],
+    };
+
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: existing }),
+      makeJsonResponse({ data: { ...existing, subject: "Updated" } }),
+    ]);
+
+    const res = await client.updateCampaign(existing.id, {
+      subject: "Updated",
+    });
+
+    expect(res.success).toBe(true);
+    expect(res.data?.subject).toBe("Updated");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const call = fetchMock.mock.calls[1];
+    expect(call[0]).toBe(`${baseConfig.apiURL}/campaigns/${existing.id}`);
+    expect(call[1]?.method).toBe("PUT");
+    const body = JSON.parse((call[1]?.body as string) ?? "{}");
+    expect(body).toMatchObject({
+      name: "Newsletter",
+      subject: "Updated",
+      lists: [1],
+      from_email: "news@example.com",
+      tags: ["weekly"],
+    });
+  });
+
+  it("schedules a campaign by setting send_at then status", async () => {
+    const existing: LMCCampaign = {
+      id: 8,
+      uuid: "camp-8",
+      name: "Launch",
+      subject: "Launch",
+      from_email: "news@example.com",
+      status: "draft",
+      type: "regular",
+      content_type: "html",
+      body: "<p>Launch</p>",
+      lists: [{ id: 2 }],
+    };
+    const sendAt = "2030-01-01T10:00:00.000Z";
+
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: existing }),
+      makeJsonResponse({ data: { ...existing, send_at: sendAt } }),
+      makeJsonResponse({
+        data: { ...existing, send_at: sendAt, status: "scheduled" },
+      }),
+    ]);
+
+    const res = await client.scheduleCampaign(existing.id, new Date(sendAt));
+
+    expect(res.success).toBe(true);
+    expect(res.data?.status).toBe("scheduled");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const updateBody = JSON.parse(
+      (fetchMock.mock.calls[1][1]?.body as string) ?? "{}",
+    );
+    expect(updateBody.send_at).toBe(sendAt);
+    const statusCall = fetchMock.mock.calls[2];
+    expect(statusCall[0]).toBe(
+      `${baseConfig.apiURL}/campaigns/${existing.id}/status`,
+    );
+    expect(JSON.parse((statusCall[1]?.body as string) ?? "{}")).toEqual({
+      status: "scheduled",
+    });
+  });
+
+  it("sends transactional mail as JSON without attachments", async () => {
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([makeJsonResponse({ data: true })]);
+
+    const res = await client.sendTransactional({
+      subscriber: { email: "tx@example.com" },
+      templateId: 5,
+      data: { order: 42 },
+      headers: { "X-Order": "42" },
+    });
+
+    expect(res.success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledOnce();
+    const call = fetchMock.mock.calls[0];
+    expect(call[0]).toBe(`${baseConfig.apiURL}/tx`);
+    expect(JSON.parse((call[1]?.body as string) ?? "{}")).toEqual({
+      subscriber_email: "tx@example.com",
+      template_id: 5,
+      data: { order: 42 },
+      content_type: "html",
+      headers: [{ "X-Order": "42" }],
+    });
+  });
+
+  it("resolves uuids and sends attachments as multipart", async () => {
+    const existing: LMCSubscriber = {
+      id: 500,
+      uuid: "uuid-500",
+      email: "tx-file@example.com",
+      name: "Tx File",
+      attribs: {},
+      status: "enabled",
+    };
+
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: { results: [existing] } }),
+      makeJsonResponse({ data: true }),
+    ]);
+
+    const res = await client.sendTransactional({
+      subscriber: { uuid: existing.uuid },
+      templateId: 6,
+      attachments: [
+        { filename: "receipt.txt", content: "paid", contentType: "text/plain" },
+      ],
+    });
+
+    expect(res.success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const init = fetchMock.mock.calls[1][1] as RequestInit;
+    expect(init.body).toBeInstanceOf(FormData);
+    const form = init.body as FormData;
+    expect(JSON.parse(form.get("data") as string)).toMatchObject({
+      subscriber_id: existing.id,
+      template_id: 6,
+    });
+    const file = form.get("file") as File;
+    expect(file.name).toBe("receipt.txt");
+    expect(await file.text()).toBe("paid");
+    expect((init.headers as Headers).has("Content-Type")).toBe(false);
+  });
+
+  it("renders template previews from the returned HTML", async () => {
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([
+      new Response("<p>Hello Demo Subscriber</p>", {
+        headers: { "content-type": "text/html; charset=utf-8" },
+        status: 200,
+      }),
+    ]);
+
+    const res = await client.previewTemplate({
+      type: "campaign",
+      body: "<p>Hello {{ .Subscriber.Name }}</p>",
+    });
+
+    expect(res.success).toBe(true);
+    expect(res.data).toBe("<p>Hello Demo Subscriber</p>");
+    const call = fetchMock.mock.calls[0];
+    expect(call[0]).toBe(`${baseConfig.apiURL}/templates/preview`);
+    const form = call[1]?.body as FormData;
+    expect(form.get("template_type")).toBe("campaign");
+  });
+
+  it("requires a subject for tx templates", async () => {
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([]);
+
+    const res = await client.createTemplate({
+      name: "Receipt",
+      type: "tx",
+      body: "<p>Thanks</p>",
+    });
+
+    expect(res.success).toBe(false);
+    expect(res.code).toBe(400);
+    expect(res.message).toBe("subject is required for tx templates");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("invalidates the list cache when lists are mutated", async () => {
+    const existing: LMCSubscriber = {
+      id: 600,
+      uuid: "uuid-600",
+      email: "cache-bust@example.com",
+      name: "Cache Bust",
+      attribs: {},
+      status: "enabled",
+      lists: [{ id: 1 }],
+    };
+
+    const client = new ListMonkClient({ ...baseConfig, listCacheSeconds: 60 });
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: { results: [existing] } }),
+      makeJsonResponse({ data: [{ id: 1, name: "Old Name" }] }),
+      makeJsonResponse({ data: true }),
+      makeJsonResponse({ data: { id: 1, name: "Old Name", type: "private" } }),
+      makeJsonResponse({ data: { id: 1, name: "New Name", type: "private" } }),
+      makeJsonResponse({ data: { results: [existing] } }),
+      makeJsonResponse({ data: [{ id: 1, name: "New Name" }] }),
+      makeJsonResponse({ data: true }),
+    ]);
+
+    const first = await client.unsubscribe({ email: existing.email });
+    expect(first.data?.lists[0].listName).toBe("Old Name");
+
+    const updated = await client.updateList(1, { name: "New Name" });
+    expect(updated.success).toBe(true);
+    const updateBody = JSON.parse(
+      (fetchMock.mock.calls[4][1]?.body as string) ?? "{}",
+    );
+    expect(updateBody).toEqual({ name: "New Name", type: "private", tags: [] });
+
+    const second = await client.unsubscribe({ email: existing.email });
+    expect(second.data?.lists[0].listName).toBe("New Name");
+    expect(fetchMock).toHaveBeenCalledTimes(8);
+  });
+
+  it("iterates list members across pages", async () => {
+    const makeSubscriber = (id: number): LMCSubscriber => ({
+      id,
+      uuid: `uuid-${id}`,
+      email: `page-${id}@example.com`,
+      name: `Page ${id}`,
+      attribs: {},
+      status: "enabled",
+    });
+
+    const client = new ListMonkClient({ ...baseConfig, listPageSize: 2 });
+    const fetchMock = queueFetch([
+      makeJsonResponse({
+        data: {
+          results: [makeSubscriber(1), makeSubscriber(2)],
+          total: 3,
+          per_page: 2,
+          page: 1,
+        },
+      }),
+      makeJsonResponse({
+        data: { results: [makeSubscriber(3)], total: 3, per_page: 2, page: 2 },
+      }),
+    ]);
+
+    const ids: number[] = [];
+    for await (const subscriber of client.iterateListMembers(9, "blocked", {
+      query: "subscribers.name LIKE 'Page%'",
+    })) {
+      ids.push(subscriber.id);
+    }
+
+    expect(ids).toEqual([1, 2, 3]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const url = new URL(fetchMock.mock.calls[1][0] as string);
+    expect(url.searchParams.get("list_id")).toBe("9");
+    expect(url.searchParams.get("page")).toBe("2");
+    expect(url.searchParams.get("per_page")).toBe("2");
+    expect(url.searchParams.get("query")).toBe(
+      "(subscribers.status = 'blocklisted') AND (subscribers.name LIKE 'Page%')",
+    );
+  });
+
+  it("stops iterating and reports the failed page", async () => {
+    const client = new ListMonkClient(baseConfig);
+    queueFetch([makeJsonResponse({ message: "boom" }, { status: 502 })]);
+    const onError = vi.fn();
+
+    const iterator = client.iterateSubscribers({ listIds: 1, onError });
+    const first = await iterator.next();
+
+    expect(first.done).toBe(true);
+    expect(first.value).toMatchObject({ success: false, code: 502 });
+    expect(onError).toHaveBeenCalledOnce();
+  });
+
+  it("keeps iterating when the server caps per_page", async () => {
+    const makeSubscriber = (id: number): LMCSubscriber => ({
+      id,
+      uuid: `uuid-${id}`,
+      email: `cap-${id}@example.com`,
+      name: `Cap ${id}`,
+      attribs: {},
+      status: "enabled",
+    });
+
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([
+      makeJsonResponse({
+        data: {
+          results: [makeSubscriber(1), makeSubscriber(2)],
+          total: 3,
+          per_page: 2,
+          page: 1,
+        },
+      }),
+      makeJsonResponse({
+        data: { results: [makeSubscriber(3)], total: 3, per_page: 2, page: 2 },
+      }),
+    ]);
+
+    const ids: number[] = [];
+    for await (const subscriber of client.iterateSubscribers({
+      perPage: 100,
+    })) {
+      ids.push(subscriber.id);
+    }
+
+    expect(ids).toEqual([1, 2, 3]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries idempotent requests on retryable statuses", async () => {
+    const onRetry = vi.fn();
+    const client = new ListMonkClient({
+      ...baseConfig,
+      retry: { maxAttempts: 3, baseDelayMS: 0, onRetry },
+    });
+    const fetchMock = queueFetch([
+      makeJsonResponse({ message: "bad gateway" }, { status: 502 }),
+      makeJsonResponse(
+        { message: "slow down" },
+        { status: 429, headers: { "retry-after": "0" } },
+      ),
+      makeJsonResponse({ data: [{ id: 1, name: "List" }] }),
+    ]);
+
+    const res = await client.listAllLists();
+
+    expect(res.success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry.mock.calls[0][0]).toMatchObject({
+      attempt: 1,
+      maxAttempts: 3,
+      method: "GET",
+      status: 502,
+    });
+    expect(onRetry.mock.calls[1][0]).toMatchObject({
+      attempt: 2,
+      status: 429,
+      delayMS: 0,
+    });
+  });
+
+  it("keeps retrying when the onRetry callback throws", async () => {
+    const warn = vi.fn();
+    const client = new ListMonkClient({
+      ...baseConfig,
+      logger: { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() },
+      retry: {
+        maxAttempts: 2,
+        baseDelayMS: 0,
+        onRetry: () => {
+          throw new Error("metrics down");
+        },
+      },
+    });
+    const fetchMock = queueFetch([
+      makeJsonResponse({ message: "bad gateway" }, { status: 502 }),
+      makeJsonResponse({ data: [{ id: 1, name: "List" }] }),
+    ]);
+
+    const res = await client.listAllLists();
+
+    expect(res.success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledWith("onRetry callback failed", {
+      error: "metrics down",
+    });
+  });
+
+  it("does not retry POST requests by default", async () => {
+    const client = new ListMonkClient({
+      ...baseConfig,
+      retry: { baseDelayMS: 0 },
+    });
+    const fetchMock = queueFetch([
+      makeJsonResponse({ message: "unavailable" }, { status: 503 }),
+    ]);
+
+    const res = await client.post("/subscribers", { email: "x@example.com" });
+
+    expect(res.success).toBe(false);
+    expect(res.code).toBe(503);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it("limits concurrent in-flight requests", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const fetchMock = vi.fn(async () => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      return makeJsonResponse({ data: true });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const onQueueWait = vi.fn();
+
+    const client = new ListMonkClient({
+      ...baseConfig,
+      maxConcurrent: 2,
+      onQueueWait,
+    });
+
+    const pending = [1, 2, 3, 4, 5].map((id) => client.get(`/noop/${id}`));
+    expect(client.getQueueStats()).toMatchObject({ active: 2, queued: 3 });
+    const results = await Promise.all(pending);
+
+    expect(results.every((res) => res.success)).toBe(true);
+    expect(peak).toBe(2);
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+    expect(onQueueWait).toHaveBeenCalled();
+    expect(client.getQueueStats()).toMatchObject({
+      active: 0,
+      queued: 0,
+      requests: 5,
+    });
+  });
+
+  it("holds the concurrency slot until the body is read", async () => {
+    const events: string[] = [];
+    const fetchMock = vi.fn(async (input: string) => {
+      const id = input.split("/").pop();
+      events.push(`fetch:${id}`);
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          events.push(`body:${id}`);
+          controller.enqueue(new TextEncoder().encode('{"data":true}'));
+          controller.close();
+        },
+      });
+      return new Response(body, {
+        headers: { "content-type": "application/json" },
+      });
+    });
+    const client = new ListMonkClient({
+      ...baseConfig,
+      fetch: fetchMock,
+      maxConcurrent: 1,
+    });
+
+    const results = await Promise.all([
+      client.get("/noop/1"),
+      client.get("/noop/2"),
+    ]);
+
+    expect(results.every((res) => res.success)).toBe(true);
+    expect(events).toEqual(["fetch:1", "body:1", "fetch:2", "body:2"]);
+  });
+
+  it("runs middleware around each request", async () => {
+    const order: string[] = [];
+    const client = new ListMonkClient({
+      ...baseConfig,
+      middleware: [
+        {
+          beforeRequest: (ctx) => {
+            order.push("outer:before");
+            ctx.headers.set("X-Trace-Id", "trace-1");
+          },
+          afterResponse: (_ctx, res) => {
+            order.push(`outer:after:${res.status}`);
+          },
+        },
+      ],
+    });
+    client.use({
+      beforeRequest: () => {
+        order.push("inner:before");
+      },
+      afterResponse: () => {
+        order.push("inner:after");
+        return makeJsonResponse({ data: "replaced" }, { status: 201 });
+      },
+    });
+    const fetchMock = queueFetch([makeJsonResponse({ data: "original" })]);
+
+    const res = await client.get<string>("/noop");
+
+    expect(res.data).toBe("replaced");
+    expect(res.code).toBe(201);
+    expect(order).toEqual([
+      "outer:before",
+      "inner:before",
+      "inner:after",
+      "outer:after:201",
+    ]);
+    const headers = fetchMock.mock.calls[0][1]?.headers as Headers;
+    expect(headers.get("X-Trace-Id")).toBe("trace-1");
+  });
+
+  it("passes network failures to middleware onError", async () => {
+    const onError = vi.fn();
+    const client = new ListMonkClient({
+      ...baseConfig,
+      middleware: [{ onError }],
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new Error("socket hang up");
+      }),
+    );
+
+    const res = await client.get("/noop");
+
+    expect(res.success).toBe(false);
+    expect(res.message).toBe("socket hang up");
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError.mock.calls[0][0]).toMatchObject({
+      method: "GET",
+      url: `${baseConfig.apiURL}/noop`,
+      attempt: 1,
+    });
+  });
+
+  it("passes throwing afterResponse hooks to middleware onError", async () => {
+    const onError = vi.fn();
+    const client = new ListMonkClient({
+      ...baseConfig,
+      middleware: [
+        { onError },
+        {
+          afterResponse: () => {
+            throw new Error("hook failed");
+          },
+        },
+      ],
+    });
+    queueFetch([makeJsonResponse({ data: true })]);
+
+    const res = await client.get("/noop");
+
+    expect(res.success).toBe(false);
+    expect(res.message).toBe("hook failed");
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError.mock.calls[0][1]).toMatchObject({ message: "hook failed" });
+  });
+
+  it("redacts credentials and emails in structured logs", async () => {
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    const client = new ListMonkClient({
+      ...baseConfig,
+      debug: true,
+      logger,
+      redactEmails: true,
+    });
+    queueFetch([makeJsonResponse({ data: { id: 1 } })]);
+
+    await client.post("/subscribers", {
+      email: "secret.person@example.com",
+      token: "abc",
+    });
+
+    const entries = logger.debug.mock.calls.map(
+      ([message, fields]) => [message, JSON.stringify(fields)] as const,
+    );
+    const sending = entries.find(([message]) => message === "Sending request");
+    expect(sending?.[1]).toContain('"authorization":"[REDACTED]"');
+    const making = entries.find(([message]) => message === "Making request");
+    expect(making?.[1]).toContain("s***@example.com");
+    expect(making?.[1]).toContain('"token":"[REDACTED]"');
+    expect(JSON.stringify(logger.debug.mock.calls)).not.toContain(
+      "secret.person",
+    );
+    expect(JSON.stringify(logger.debug.mock.calls)).not.toContain("Basic ");
+  });
+
+  it("does not emit debug logs unless debug is enabled", async () => {
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    const client = new ListMonkClient({ ...baseConfig, logger });
+    queueFetch([makeJsonResponse({ data: true })]);
+
+    await client.get("/noop");
+
+    expect(logger.debug).not.toHaveBeenCalled();
+  });
+
+  it("supports API token auth and a custom fetch implementation", async () => {
+    const customFetch = vi.fn(async () => makeJsonResponse({ data: true }));
+    const client = new ListMonkClient({
+      apiURL: baseConfig.apiURL,
+      auth: { type: "token", user: "api-user", token: "secret" },
+      fetch: customFetch,
+    });
+
+    const res = await client.get("/noop");
+
+    expect(res.success).toBe(true);
+    expect(customFetch).toHaveBeenCalledOnce();
+    const init = (customFetch.mock.calls[0] as unknown[])[1] as RequestInit;
+    expect((init.headers as Headers).get("Authorization")).toBe(
+      "token api-user:secret",
+    );
+  });
+
+  it("resolves custom auth headers for every request", async () => {
+    let version = 0;
+    const client = new ListMonkClient({
+      apiURL: baseConfig.apiURL,
+      auth: {
+        type: "custom",
+        headers: async () => ({ "X-Proxy-Auth": `key-${++version}` }),
+      },
+    });
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: true }),
+      makeJsonResponse({ data: true }),
+    ]);
+
+    await client.get("/noop");
+    await client.get("/noop");
+
+    const first = fetchMock.mock.calls[0][1]?.headers as Headers;
+    const second = fetchMock.mock.calls[1][1]?.headers as Headers;
+    expect(first.get("X-Proxy-Auth")).toBe("key-1");
+    expect(second.get("X-Proxy-Auth")).toBe("key-2");
+    expect(second.has("Authorization")).toBe(false);
+  });
+
+  it("does not retry a failing auth header provider", async () => {
+    const headers = vi.fn(async () => {
+      throw new Error("vault unavailable");
+    });
+    const client = new ListMonkClient({
+      apiURL: baseConfig.apiURL,
+      auth: { type: "custom", headers },
+      retry: { maxAttempts: 3, baseDelayMS: 0 },
+    });
+    const fetchMock = queueFetch([]);
+
+    const res = await client.get("/noop");
+
+    expect(res).toMatchObject({
+      success: false,
+      errorCode: "AUTH",
+      message: "vault unavailable",
+    });
+    expect(res.code).not.toBe(401);
+    expect(headers).toHaveBeenCalledOnce();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("plans a sync without issuing mutating requests in dry-run mode", async () => {
+    const listId = 77;
+    const blocked: LMCSubscriber = {
+      id: 700,
+      uuid: "uuid-700",
+      email: "blocked@example.com",
+      name: "Blocked",
+      attribs: { uid: "u-blocked" },
+      status: "blocklisted",
+    };
+    const lapsed: LMCSubscriber = {
+      id: 701,
+      uuid: "uuid-701",
+      email: "lapsed@example.com",
+      name: "Old Name",
+      attribs: { uid: "u-lapsed" },
+      status: "enabled",
+      lists: [{ id: listId, subscription_status: "unsubscribed" }],
+    };
+
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: { results: [blocked, lapsed] } }),
+      makeJsonResponse({ data: { results: [] } }),
+    ]);
+
+    const res = await client.syncUsersToList(
+      listId,
+      [
+        { uid: "u-new", email: "new@example.com" },
+        { uid: "u-blocked", email: blocked.email },
+        { uid: "u-lapsed", email: lapsed.email, name: "New Name" },
+      ],
+      { dryRun: true },
+    );
+
+    expect(res.success).toBe(true);
+    expect(res.data?.create).toEqual([
+      { email: "new@example.com", uid: "u-new", listIds: [listId] },
+    ]);
+    expect(res.data?.skippedBlocklisted).toEqual([
+      { email: blocked.email, uid: "u-blocked", subscriberId: blocked.id },
+    ]);
+    expect(res.data?.update).toEqual([
+      {
+        email: lapsed.email,
+        uid: "u-lapsed",
+        subscriberId: lapsed.id,
+        fields: ["name"],
+      },
+    ]);
+    expect(res.data?.resubscribe).toEqual([
+      {
+        email: lapsed.email,
+        uid: "u-lapsed",
+        subscriberId: lapsed.id,
+        listIds: [listId],
+      },
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    fetchMock.mock.calls.forEach((call) => {
+      expect(call[1]?.method).toBe("GET");
+    });
+  });
+
+  it("plans list changes for setSubscriptions in dry-run mode", async () => {
+    const existing: LMCSubscriber = {
+      id: 702,
+      uuid: "uuid-702",
+      email: "plan@example.com",
+      name: "Plan",
+      attribs: {},
+      status: "enabled",
+      lists: [
+        { id: 1, subscription_status: "unsubscribed" },
+        { id: 2, subscription_status: "confirmed" },
+      ],
+    };
+
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: { results: [existing] } }),
+    ]);
+
+    const res = await client.setSubscriptions(
+      { email: existing.email },
+      [1, 3],
+      {
+        removeOthers: true,
+        dryRun: true,
+      },
+    );
+
+    expect(res.success).toBe(true);
+    const entry = { email: existing.email, subscriberId: existing.id };
+    expect(res.data?.resubscribe).toEqual([{ ...entry, listIds: [1] }]);
+    expect(res.data?.attach).toEqual([{ ...entry, listIds: [3] }]);
+    expect(res.data?.detach).toEqual([{ ...entry, listIds: [2] }]);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it("reports per-user outcomes and continues past failed updates", async () => {
+    const listId = 88;
+    const blocked: LMCSubscriber = {
+      id: 800,
+      uuid: "uuid-800",
+      email: "blocked@example.com",
+      name: "Blocked",
+      attribs: { uid: "u-800" },
+      status: "blocklisted",
+    };
+    const broken: LMCSubscriber = {
+      id: 801,
+      uuid: "uuid-801",
+      email: "broken@example.com",
+      name: "Broken",
+      attribs: { uid: "u-801" },
+      status: "enabled",
+      lists: [{ id: listId, subscription_status: "confirmed" }],
+    };
+    const joiner: LMCSubscriber = {
+      id: 802,
+      uuid: "uuid-802",
+      email: "joiner@example.com",
+      name: "Joiner",
+      attribs: { uid: "u-802" },
+      status: "enabled",
+      lists: [],
+    };
+
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: { results: [blocked, broken, joiner] } }),
+      makeJsonResponse({ data: { results: [] } }),
+      makeJsonResponse({ message: "invalid email" }, { status: 400 }),
+      makeJsonResponse({ data: true }),
+    ]);
+
+    const res = await client.syncUsersToList(
+      listId,
+      [
+        { uid: "u-800", email: blocked.email },
+        { uid: "u-801", email: "not-an-email" },
+        { uid: "u-802", email: joiner.email },
+      ],
+      { detailed: true },
+    );
+
+    expect(res.success).toBe(false);
+    expect(res.code).toBe(207);
+    expect(res.data?.blocked).toBe(1);
+    expect(res.data?.added).toBe(1);
+    expect(res.data?.errors).toEqual([
+      {
+        uid: "u-801",
+        email: "not-an-email",
+        message: "invalid email",
+        code: 400,
+      },
+    ]);
+    expect(res.data?.users).toEqual([
+      {
+        uid: "u-800",
+        email: blocked.email,
+        subscriberId: blocked.id,
+        outcomes: ["skipped-blocklisted"],
+      },
+      {
+        uid: "u-801",
+        email: "not-an-email",
+        subscriberId: broken.id,
+        outcomes: ["failed"],
+        error: { message: "invalid email", code: 400 },
+      },
+      {
+        uid: "u-802",
+        email: joiner.email,
+        subscriberId: joiner.id,
+        outcomes: ["added"],
+      },
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(fetchMock.mock.calls[3][0]).toBe(
+      `${baseConfig.apiURL}/subscribers/lists/${listId}`,
+    );
+  });
+
+  it("mirrors a list by unsubscribing members missing from the source", async () => {
+    const listId = 90;
+    const member = (id: number, uid?: string): LMCSubscriber => ({
+      id,
+      uuid: `uuid-${id}`,
+      email: `m${id}@example.com`,
+      name: `Member ${id}`,
+      attribs: uid ? { uid } : {},
+      status: "enabled",
+      lists: [{ id: listId, subscription_status: "confirmed" }],
+    });
+    const kept = member(900, "u-900");
+    const gone = member(901, "u-901");
+    const manual = member(902);
+
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: { results: [kept] } }),
+      makeJsonResponse({ data: { results: [] } }),
+      makeJsonResponse({ data: { results: [kept, gone, manual], total: 3 } }),
+      makeJsonResponse({ data: true }),
+    ]);
+
+    const res = await client.syncUsersToList(
+      listId,
+      [{ uid: "u-900", email: kept.email, name: kept.name }],
+      { mirror: { policy: "unsubscribe", maxRemoveRatio: 0.5 } },
+    );
+
+    expect(res.success).toBe(true);
+    expect(res.data?.mirror).toEqual({
+      policy: "unsubscribe",
+      members: 3,
+      candidates: [
+        {
+          email: gone.email,
+          uid: "u-901",
+          subscriberId: gone.id,
+          listIds: [listId],
+        },
+      ],
+      removed: 1,
+      aborted: false,
+    });
+    const call = fetchMock.mock.calls[3];
+    expect(call[0]).toBe(`${baseConfig.apiURL}/subscribers/lists`);
+    expect(JSON.parse((call[1]?.body as string) ?? "{}")).toEqual({
+      ids: [gone.id],
+      action: "unsubscribe",
+      target_list_ids: [listId],
+    });
+  });
+
+  it("aborts a mirror sync when too many members would be removed", async () => {
+    const listId = 91;
+    const members: LMCSubscriber[] = [910, 911, 912].map((id) => ({
+      id,
+      uuid: `uuid-${id}`,
+      email: `m${id}@example.com`,
+      name: "",
+      attribs: { uid: `u-${id}` },
+      status: "enabled",
+      lists: [{ id: listId, subscription_status: "confirmed" }],
+    }));
+
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: { results: [members[0]] } }),
+      makeJsonResponse({ data: { results: [] } }),
+      makeJsonResponse({ data: { results: members, total: 3 } }),
+    ]);
+
+    const res = await client.syncUsersToList(
+      listId,
+      [{ uid: "u-910", email: members[0].email }],
+      { mirror: { policy: "delete" } },
+    );
+
+    expect(res.success).toBe(false);
+    expect(res.code).toBe(409);
+    expect(res.data?.mirror?.aborted).toBe(true);
+    expect(res.data?.mirror?.candidates).toHaveLength(2);
+    expect(res.data?.mirror?.removed).toBe(0);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("aborts a mirror sync before creating or attaching anyone", async () => {
+    const server = new LMCMockServer({
+      lists: [{ name: "Members" }],
+      subscribers: [1, 2, 3].map((n) => ({
+        email: `m${n}@example.com`,
+        attribs: { uid: `u-${n}` },
+        lists: [1],
+      })),
+    });
+    const client = new ListMonkClient({ ...baseConfig, fetch: server.fetch });
+
+    const res = await client.syncUsersToList(
+      1,
+      [
+        { uid: "u-1", email: "m1@example.com" },
+        { uid: "u-new", email: "new@example.com" },
+      ],
+      { mirror: { policy: "remove", maxRemoveRatio: 0.5 } },
+    );
+
+    expect(res.code).toBe(409);
+    expect(res.data?.mirror).toMatchObject({ members: 3, aborted: true });
+    expect(server.getSubscriber("new@example.com")).toBeNull();
+    expect(server.requests.every((r) => r.method === "GET")).toBe(true);
+  });
+
+  it("resumes a sync job from the last completed chunk", async () => {
+    const listId = 92;
+    const member = (id: number): LMCSubscriber => ({
+      id,
+      uuid: `uuid-${id}`,
+      email: `m${id}@example.com`,
+      name: `Member ${id}`,
+      attribs: { uid: `u-${id}` },
+      status: "enabled",
+      lists: [{ id: listId, subscription_status: "confirmed" }],
+    });
+    const first = member(920);
+    const second = member(921);
+    const toUser = (s: LMCSubscriber) => ({
+      uid: s.attribs.uid as string,
+      email: s.email,
+      name: s.name,
+    });
+
+    const client = new ListMonkClient(baseConfig);
+    const store = new LMCMemoryCheckpointStore();
+    const save = store.save.bind(store);
+    vi.spyOn(store, "save")
+      .mockImplementationOnce(save)
+      .mockImplementationOnce(() => {
+        throw new Error("disk full");
+      });
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: { results: [first] } }),
+      makeJsonResponse({ data: { results: [] } }),
+      makeJsonResponse({ data: { results: [second] } }),
+      makeJsonResponse({ data: { results: [] } }),
+      makeJsonResponse({ data: { results: [second] } }),
+      makeJsonResponse({ data: { results: [] } }),
+    ]);
+    const users = [toUser(first), toUser(second)];
+
+    const failed = await client.syncUsersToListJob("nightly", listId, users, {
+      store,
+      chunkSize: 1,
+    });
+    expect(failed.success).toBe(false);
+    expect(failed.message).toBe("Failed to save checkpoint: disk full");
+    expect(store.load("nightly")).toMatchObject({
+      nextIndex: 1,
+      counts: { blocked: 0, unsubscribed: 0, added: 0, updated: 0, failed: 0 },
+    });
+
+    const onProgress = vi.fn();
+    const res = await client.syncUsersToListJob("nightly", listId, users, {
+      store,
+      chunkSize: 1,
+      onProgress,
+    });
+
+    expect(res.success).toBe(true);
+    expect(res.data).toEqual({
+      blocked: 0,
+      unsubscribed: 0,
+      added: 0,
+      updated: 0,
+    });
+    expect(onProgress).toHaveBeenCalledTimes(1);
+    expect(onProgress).toHaveBeenCalledWith({
+      jobId: "nightly",
+      chunk: 2,
+      chunks: 2,
+      processed: 2,
+      total: 2,
+      resumed: true,
+      counts: { blocked: 0, unsubscribed: 0, added: 0, updated: 0, failed: 0 },
+    });
+    expect(store.load("nightly")).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+  });
+
+  it("refuses to resume a sync job with a different input", async () => {
+    const client = new ListMonkClient(baseConfig);
+    const store = new LMCMemoryCheckpointStore();
+    store.save({
+      jobId: "nightly",
+      kind: "syncUsersToList",
+      listId: 1,
+      total: 2,
+      chunkSize: 1,
+      nextIndex: 1,
+      fingerprint: "0000000000000000",
+      counts: {},
+      updatedAt: "2025-01-01T00:00:00.000Z",
+    });
+    const fetchMock = queueFetch([]);
+
+    const res = await client.syncUsersToListJob(
+      "nightly",
+      1,
+      [
+        { uid: "u-1", email: "one@example.com" },
+        { uid: "u-2", email: "two@example.com" },
+      ],
+      { store, chunkSize: 1 },
+    );
+
+    expect(res.code).toBe(409);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(store.load("nightly")?.nextIndex).toBe(1);
+  });
+
+  it("finishes bulk work when onProgress throws", async () => {
+    const server = new LMCMockServer({ lists: [{ name: "News" }] });
+    const warn = vi.fn();
+    const client = new ListMonkClient({
+      ...baseConfig,
+      fetch: server.fetch,
+      logger: { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() },
+    });
+    const onProgress = () => {
+      throw new Error("ui gone");
+    };
+
+    const sync = await client.syncUsersToList(
+      1,
+      [{ uid: "u1", email: "a@example.com" }],
+      { onProgress },
+    );
+    expect(sync.success).toBe(true);
+    expect(server.getMembership(1, 1)).toBe("confirmed");
+
+    const job = await client.addSubscribersToListJob(
+      "import",
+      1,
+      [{ email: "b@example.com" }],
+      { store: new LMCMemoryCheckpointStore(), onProgress },
+    );
+    expect(job.success).toBe(true);
+    expect(warn).toHaveBeenCalledWith("onProgress callback failed", {
+      error: "ui gone",
+    });
+  });
+
+  it("collapses duplicate job entries before chunking", async () => {
+    const server = new LMCMockServer({ lists: [{ name: "News" }] });
+    const client = new ListMonkClient({ ...baseConfig, fetch: server.fetch });
+    const onProgress = vi.fn();
+
+    const res = await client.addSubscribersToListJob(
+      "import",
+      1,
+      [
+        { email: "a@example.com", name: "First" },
+        { email: "b@example.com" },
+        { email: "A@example.com", name: "Second" },
+      ],
+      { store: new LMCMemoryCheckpointStore(), chunkSize: 1, onProgress },
+    );
+
+    expect(res.success).toBe(true);
+    expect(res.data?.created.map((s) => s.name)).toEqual(["Second", "b"]);
+    expect(
+      server.requests.filter(
+        (r) => r.method === "POST" && r.path === "/subscribers",
+      ),
+    ).toHaveLength(2);
+    expect(onProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ processed: 2, total: 2, chunks: 2 }),
+    );
+  });
+
+  it("persists checkpoints to a JSON file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "lmc-checkpoint-"));
+    try {
+      const store = new LMCFileCheckpointStore(join(dir, "jobs.json"));
+      expect(await store.load("missing")).toBeNull();
+
+      const checkpoint = {
+        jobId: "import",
+        kind: "addSubscribersToList" as const,
+        listId: 1,
+        total: 10,
+        chunkSize: 5,
+        nextIndex: 5,
+        fingerprint: "0123456789abcdef",
+        counts: { created: 3, added: 2 },
+        updatedAt: "2025-01-01T00:00:00.000Z",
+      };
+      await store.save(checkpoint);
+      expect(
+        await new LMCFileCheckpointStore(join(dir, "jobs.json")).load("import"),
+      ).toEqual(checkpoint);
+
+      await store.clear("import");
+      expect(await store.load("import")).toBeNull();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("reports progress phases and running counts while syncing", async () => {
+    const listId = 93;
+    const joiner: LMCSubscriber = {
+      id: 930,
+      uuid: "uuid-930",
+      email: "joiner930@example.com",
+      name: "Joiner",
+      attribs: { uid: "u-930" },
+      status: "enabled",
+      lists: [],
+    };
+
+    const client = new ListMonkClient(baseConfig);
+    queueFetch([
+      makeJsonResponse({ data: { results: [joiner] } }),
+      makeJsonResponse({ data: { results: [] } }),
+      makeJsonResponse({ data: true }),
+    ]);
+
+    const onProgress = vi.fn();
+    const res = await client.syncUsersToList(
+      listId,
+      [{ uid: "u-930", email: joiner.email, name: joiner.name }],
+      { onProgress },
+    );
+
+    expect(res.success).toBe(true);
+    const counts = {
+      created: 0,
+      updated: 0,
+      added: 0,
+      resubscribed: 0,
+      skipped: 0,
+      removed: 0,
+      failed: 0,
+    };
+    expect(onProgress.mock.calls.map(([p]) => p)).toEqual([
+      { phase: "lookup-uid", processed: 1, total: 1, counts },
+      { phase: "lookup-email", processed: 1, total: 1, counts },
+      {
+        phase: "create-update",
+        processed: 1,
+        total: 1,
+        counts: { ...counts, added: 1 },
+      },
+      {
+        phase: "attach",
+        processed: 1,
+        total: 1,
+        counts: { ...counts, added: 1 },
+      },
+    ]);
+  });
+
+  it("counts planned creates in dry-run progress", async () => {
+    const client = new ListMonkClient(baseConfig);
+    queueFetch([
+      makeJsonResponse({ data: { results: [] } }),
+      makeJsonResponse({ data: { results: [] } }),
+      makeJsonResponse({ data: { results: [] } }),
+      makeJsonResponse({ data: { results: [] } }),
+    ]);
+    const syncProgress = vi.fn();
+    const addProgress = vi.fn();
+
+    await client.syncUsersToList(
+      1,
+      [{ uid: "u-new", email: "new@example.com" }],
+      { dryRun: true, onProgress: syncProgress },
+    );
+    await client.addSubscribersToList(1, [{ email: "new@example.com" }], {
+      dryRun: true,
+      onProgress: addProgress,
+    });
+
+    expect(syncProgress.mock.lastCall?.[0].counts.created).toBe(1);
+    expect(addProgress.mock.lastCall?.[0].counts.created).toBe(1);
+  });
+
+  it("merges attributes per field and leaves unowned keys alone", async () => {
+    const existing: LMCSubscriber = {
+      id: 940,
+      uuid: "uuid-940",
+      email: "merge@example.com",
+      name: "Merge",
+      attribs: {
+        uid: "u-940",
+        prefs: { theme: "dark", lang: "en" },
+        plan: "pro",
+        source: "form",
+        legacy: true,
+      },
+      status: "enabled",
+      lists: [],
+    };
+
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: { results: [existing] } }),
+      makeJsonResponse({ data: existing }),
+    ]);
+
+    const res = await client.updateUser(
+      { email: existing.email },
+      {
+        attribs: {
+          prefs: { lang: "nb", font: "serif" },
+          plan: "free",
+          tags: ["a"],
+        },
+      },
+      {
+        attribMerge: {
+          fields: { prefs: "deep", plan: "keep-existing" },
+          ownedKeys: ["prefs", "plan", "tags", "legacy"],
+        },
+      },
+    );
+
+    expect(res.success).toBe(true);
+    const body = JSON.parse(
+      (fetchMock.mock.calls[1][1]?.body as string) ?? "{}",
+    );
+    expect(body.attribs).toEqual({
+      uid: "u-940",
+      prefs: { theme: "dark", lang: "nb", font: "serif" },
+      plan: "pro",
+      source: "form",
+      tags: ["a"],
+    });
+  });
+
+  it("keeps owned attributes on a name-only update", async () => {
+    const existing: LMCSubscriber = {
+      id: 941,
+      uuid: "uuid-941",
+      email: "owned@example.com",
+      name: "Owned",
+      attribs: { uid: "u-941", plan: "pro", source: "form" },
+      status: "enabled",
+      lists: [],
+    };
+
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: { results: [existing] } }),
+      makeJsonResponse({ data: existing }),
+    ]);
+
+    const res = await client.updateUser(
+      { email: existing.email },
+      { name: "Renamed" },
+      { attribMerge: { ownedKeys: ["plan"] } },
+    );
+
+    expect(res.success).toBe(true);
+    const body = JSON.parse(
+      (fetchMock.mock.calls[1][1]?.body as string) ?? "{}",
+    );
+    expect(body.name).toBe("Renamed");
+    expect(body.attribs).toEqual(existing.attribs);
+  });
+
+  it("ignores incoming attributes outside the owned keys", async () => {
+    const existing: LMCSubscriber = {
+      id: 942,
+      uuid: "uuid-942",
+      email: "owned@example.com",
+      name: "Owned",
+      attribs: { plan: "pro", source: "form" },
+      status: "enabled",
+      lists: [],
+    };
+
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: { results: [existing] } }),
+      makeJsonResponse({ data: existing }),
+    ]);
+
+    const res = await client.updateUser(
+      { email: existing.email },
+      { attribs: { plan: "free", source: "sync", theme: "dark" } },
+      { attribMerge: { ownedKeys: ["plan"] } },
+    );
+
+    expect(res.success).toBe(true);
+    const body = JSON.parse(
+      (fetchMock.mock.calls[1][1]?.body as string) ?? "{}",
+    );
+    expect(body.attribs).toEqual({ plan: "free", source: "form" });
+  });
+
+  it("builds escaped subscriber queries", () => {
+    const query = LMCQuery.and(
+      LMCQuery.in("email", ["a@example.com", "o'neil@example.com"]),
+      LMCQuery.or(
+        LMCQuery.gte(LMCQuery.attrib("profile", "age"), 18),
+        LMCQuery.lt("created_at", new Date("2024-01-01T00:00:00Z")),
+      ),
+      LMCQuery.not(
+        LMCQuery.ilike(
+          LMCQuery.attrib("company"),
+          `%${LMCQuery.escapeLike("50%_off")}%`,
+        ),
+      ),
+    );
+
+    expect(query.toString()).toBe(
+      "(subscribers.email IN ('a@example.com', 'o''neil@example.com')) AND " +
+        "(((subscribers.attribs->'profile'->>'age')::numeric >= 18) OR " +
+        "(subscribers.created_at < '2024-01-01T00:00:00.000Z')) AND " +
+        "(NOT (subscribers.attribs->>'company' ILIKE '%50\\%\\_off%'))",
+    );
+    expect(LMCQuery.in("id", []).toString()).toBe("FALSE");
+    expect(() => LMCQuery.in(LMCQuery.attrib("code"), [1, "2"])).toThrow(
+      "LMCQuery.in values must all have the same type",
+    );
+    expect(() => LMCQuery.eq("id", Number.NaN)).toThrow();
+  });
+
+  it("searches subscribers with a built query", async () => {
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: { results: [], total: 0 } }),
+    ]);
+
+    const res = await client.searchSubscribers(
+      LMCQuery.eq(LMCQuery.attrib("uid"), "u-1"),
+      { page: 2, perPage: 10, listIds: 4 },
+    );
+
+    expect(res.success).toBe(true);
+    const url = new URL(fetchMock.mock.calls[0][0] as string);
+    expect(url.pathname).toBe("/api/subscribers");
+    expect(url.searchParams.get("query")).toBe(
+      "subscribers.attribs->>'uid' = 'u-1'",
+    );
+    expect(url.searchParams.get("list_id")).toBe("4");
+    expect(url.searchParams.get("page")).toBe("2");
+    expect(url.searchParams.get("per_page")).toBe("10");
+  });
+
+  it("records validator failures on bulk email changes per entry", async () => {
+    interface MemberAttribs {
+      uid?: string;
+      plan: string;
+    }
+    const server = new LMCMockServer({
+      lists: [{ name: "Members" }],
+      subscribers: [
+        { email: "old@example.com", attribs: { uid: "u1", plan: "pro" } },
+      ],
+    });
+    const client = new ListMonkClient<MemberAttribs>({
+      ...baseConfig,
+      fetch: server.fetch,
+      validateAttribs: (attribs) =>
+        ["free", "pro"].includes(attribs.plan) || "plan must be free or pro",
+    });
+
+    const res = await client.addSubscribersToList(1, [
+      { email: "new@example.com", uid: "u1", attribs: { plan: "team" } },
+      { email: "ok@example.com", attribs: { plan: "pro" } },
+    ]);
+
+    expect(res.code).toBe(207);
+    expect(res.data?.errors).toEqual([
+      {
+        email: "new@example.com",
+        message: "plan must be free or pro",
+        code: 400,
+      },
+    ]);
+    expect(res.data?.created.map((s) => s.attribs.plan)).toEqual(["pro"]);
+    expect(server.getSubscriber(1)?.email).toBe("old@example.com");
+  });
+
+  it("rejects attribs that fail the configured validator", async () => {
+    interface MemberAttribs {
+      plan: "free" | "pro";
+      seats?: number;
+    }
+    const client = new ListMonkClient<MemberAttribs>({
+      ...baseConfig,
+      validateAttribs: (attribs) =>
+        ["free", "pro"].includes(attribs.plan) || "plan must be free or pro",
+    });
+    const created: LMCSubscriber<MemberAttribs> = {
+      id: 950,
+      uuid: "uuid-950",
+      email: "typed@example.com",
+      name: "",
+      attribs: { plan: "pro", seats: 3 },
+      status: "enabled",
+    };
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: { results: [] } }),
+      makeJsonResponse({ data: { results: [] } }),
+      makeJsonResponse({ data: created }),
+    ]);
+
+    const rejected = await client.subscribe(1, {
+      email: created.email,
+      attribs: { plan: "team" } as unknown as MemberAttribs,
+    });
+    expect(rejected.success).toBe(false);
+    expect(rejected.code).toBe(400);
+    expect(rejected.message).toBe(
+      "Failed to subscribe: plan must be free or pro",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const res = await client.subscribe(1, {
+      email: created.email,
+      attribs: { plan: "pro", seats: 3 },
+    });
+    expect(res.success).toBe(true);
+    expect(res.data?.subscriber?.attribs.seats).toBe(3);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("rejects unexpected response shapes when validateResponses is set", async () => {
+    const client = new ListMonkClient({
+      ...baseConfig,
+      validateResponses: true,
+    });
+    queueFetch([
+      makeJsonResponse({
+        data: {
+          results: [{ id: "7", uuid: "u", email: "a@example.com" }],
+          total: 1,
+        },
+      }),
+    ]);
+
+    const page = await client.searchSubscribers(
+      LMCQuery.eq("status", "enabled"),
+    );
+
+    expect(page.success).toBe(false);
+    expect(page.code).toBe(502);
+    expect(page.errorCode).toBe("PARSE");
+    expect(page.message).toBe(
+      "Unexpected response from GET /subscribers: data.results[0].id should be a number, got string",
+    );
+  });
+
+  it("passes well-formed responses through validation", async () => {
+    const client = new ListMonkClient({
+      ...baseConfig,
+      validateResponses: true,
+    });
+    queueFetch([makeJsonResponse({ data: [{ id: 3, name: "News" }] })]);
+
+    const lists = await client.listAllLists();
+
+    expect(lists.success).toBe(true);
+    expect(lists.data?.[0].name).toBe("News");
+  });
+
+  it("lets null records through validation as not found", async () => {
+    const client = new ListMonkClient({
+      ...baseConfig,
+      validateResponses: true,
+    });
+    queueFetch([
+      makeJsonResponse({ data: null }),
+      makeJsonResponse({ data: null }),
+    ]);
+
+    const missing = await client.getSubscriberById(7);
+    expect(missing.code).toBe(404);
+    expect(missing.errorCode).toBe("NOT_FOUND");
+
+    const list = await client.getList(3);
+    expect(list.code).toBe(404);
+    expect(list.message).toBe("List not found");
+  });
+
+  it("tags failures with an errorCode", async () => {
+    const client = new ListMonkClient(baseConfig);
+    queueFetch([
+      makeJsonResponse({ message: "not found" }, { status: 404 }),
+      () => {
+        throw new TypeError("fetch failed");
+      },
+    ]);
+
+    const missing = await client.getSubscriberById(12);
+    expect(missing.errorCode).toBe("NOT_FOUND");
+    expect(() => missing.unwrap()).toThrow(LMCError);
+
+    const offline = await client.getSubscriberById(12);
+    expect(offline.errorCode).toBe("NETWORK");
+
+    const invalid = await client.deleteSubscribers([]);
+    expect(invalid.errorCode).toBe("VALIDATION");
+  });
+
+  it("tags client-side faults as UNKNOWN rather than SERVER", async () => {
+    const client = new ListMonkClient(baseConfig).use({
+      beforeRequest: () => {
+        throw new Error("hook broke");
+      },
+    });
+    const fetchMock = queueFetch([]);
+
+    const res = await client.getSubscriberById(12);
+    expect(res.code).toBe(500);
+    expect(res.errorCode).toBe("UNKNOWN");
+    expect(res.message).toBe("hook broke");
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(LMCResponse.error("boom", { code: 503 }).errorCode).toBe("SERVER");
+  });
+
+  it("throws LMCError from methods in throwOnError mode", async () => {
+    const throwing = new ListMonkClient({ ...baseConfig, throwOnError: true });
+    queueFetch([
+      makeJsonResponse({ message: "conflict" }, { status: 409 }),
+      makeJsonResponse({ data: { id: 3, name: "News" } }),
+    ]);
+    const err = await throwing
+      .post("/subscribers", { email: "dup@example.com" })
+      .catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(LMCError);
+    expect((err as LMCError).errorCode).toBe("CONFLICT");
+    expect((err as LMCError).code).toBe(409);
+
+    const list = await throwing.getList(3);
+    expect(list.data?.name).toBe("News");
+    expect(throwing.use({})).toBe(throwing);
+  });
+
+  it("throws LMCError from async iterators in throwOnError mode", async () => {
+    const throwing = new ListMonkClient({ ...baseConfig, throwOnError: true });
+    queueFetch([
+      makeJsonResponse({
+        data: {
+          results: [{ id: 1, email: "a@example.com" }],
+          total: 2,
+          per_page: 1,
+          page: 1,
+        },
+      }),
+      makeJsonResponse({ message: "boom" }, { status: 500 }),
+    ]);
+    const seen: string[] = [];
+    const iterated = await (async () => {
+      for await (const subscriber of throwing.iterateSubscribers({
+        perPage: 1,
+      })) {
+        seen.push(subscriber.email);
+      }
+    })().catch((e: unknown) => e);
+    expect(seen).toEqual(["a@example.com"]);
+    expect(iterated).toBeInstanceOf(LMCError);
+    expect((iterated as LMCError).code).toBe(500);
+
+    queueFetch([makeJsonResponse({ message: "forbidden" }, { status: 403 })]);
+    const lines: string[] = [];
+    const exported = await (async () => {
+      for await (const line of throwing.exportSubscribers()) {
+        lines.push(line);
+      }
+    })().catch((e: unknown) => e);
+    expect(exported).toBeInstanceOf(LMCError);
+    expect((exported as LMCError).code).toBe(403);
+    expect(lines).toHaveLength(1);
+  });
+
+  it("subscribes against the mock server", async () => {
+    const server = new LMCMockServer({
+      lists: [{ name: "News" }, { name: "Offers", optin: "double" }],
+    });
+    const client = new ListMonkClient({
+      ...baseConfig,
+      fetch: server.fetch,
+      validateResponses: true,
+    });
+
+    const subscribed = await client.subscribe(2, { email: "new@example.com" });
+    expect(subscribed.success).toBe(true);
+    expect(subscribed.data?.created).toBe(true);
+    const newId = subscribed.data?.subscriber?.id as number;
+    expect(server.getMembership(newId, 2)).toBe("confirmed");
+
+    const again = await client.subscribe(2, { email: "new@example.com" });
+    expect(again.data?.alreadySubscribed).toBe(true);
+  });
+
+  it("sets subscriptions against the mock server", async () => {
+    const server = new LMCMockServer({
+      lists: [{ name: "News" }, { name: "Offers" }],
+      subscribers: [{ email: "new@example.com", lists: [2] }],
+    });
+    const client = new ListMonkClient({
+      ...baseConfig,
+      fetch: server.fetch,
+      validateResponses: true,
+    });
+
+    const set = await client.setSubscriptions(
+      { email: "new@example.com" },
+      [1],
+      {
+        removeOthers: true,
+      },
+    );
+    expect(set.success).toBe(true);
+    expect(server.getMembership(1, 1)).toBe("confirmed");
+    expect(server.getMembership(1, 2)).toBe("unsubscribed");
+  });
+
+  it("syncs users against the mock server", async () => {
+    const server = new LMCMockServer({
+      lists: [{ name: "News" }],
+      subscribers: [
+        { email: "old@example.com", attribs: { uid: "u1" }, lists: [1] },
+        {
+          email: "gone@example.com",
+          lists: [{ id: 1, status: "unsubscribed" }],
+        },
+      ],
+    });
+    const client = new ListMonkClient({
+      ...baseConfig,
+      fetch: server.fetch,
+      validateResponses: true,
+    });
+
+    const sync = await client.syncUsersToList(1, [
+      { uid: "u1", email: "renamed@example.com", name: "Renamed" },
+      { uid: "u2", email: "fresh@example.com" },
+    ]);
+    expect(sync.success).toBe(true);
+    expect(server.getSubscriber(1)?.email).toBe("renamed@example.com");
+    const fresh = server.getSubscriber("fresh@example.com");
+    expect(fresh?.attribs.uid).toBe("u2");
+    expect(server.getMembership(fresh?.id as number, 1)).toBe("confirmed");
+    expect(server.getMembership(2, 1)).toBe("unsubscribed");
+  });
+
+  it("evaluates LMCQuery expressions in the mock", async () => {
+    const server = new LMCMockServer({
+      subscribers: [
+        { email: "a@example.com", attribs: { profile: { age: 30 } } },
+        { email: "b@example.com", attribs: { profile: { age: 17 } } },
+        { email: "c_d@example.com", status: "blocklisted" },
+      ],
+    });
+    const client = new ListMonkClient({ ...baseConfig, fetch: server.fetch });
+
+    const adults = await client.searchSubscribers(
+      LMCQuery.and(
+        LMCQuery.gte(LMCQuery.attrib("profile", "age"), 18),
+        LMCQuery.ne("status", "blocklisted"),
+      ),
+    );
+    expect(adults.data?.results.map((s) => s.email)).toEqual(["a@example.com"]);
+
+    const escaped = await client.searchSubscribers(
+      LMCQuery.like("email", `${LMCQuery.escapeLike("c_")}%`),
+    );
+    expect(escaped.data?.total).toBe(1);
+  });
+
+  it("injects one-shot failures in the mock", async () => {
+    const server = new LMCMockServer({
+      subscribers: [{ email: "a@example.com" }],
+    });
+    const client = new ListMonkClient({ ...baseConfig, fetch: server.fetch });
+
+    server.failOn("GET", /^\/subscribers\/\d+$/, 503, "Maintenance");
+    const failed = await client.getSubscriberById(1);
+    expect(failed.code).toBe(503);
+    expect(failed.message).toBe("Maintenance");
+    expect((await client.getSubscriberById(1)).data?.email).toBe(
+      "a@example.com",
+    );
+  });
+
+  it("uploads subscriptions as a CSV import", async () => {
+    const client = new ListMonkClient(baseConfig);
+    const fetchMock = queueFetch([
+      makeJsonResponse({
+        data: {
+          name: "subscribers.csv",
+          total: 2,
+          imported: 0,
+          status: "importing",
+        },
+      }),
+    ]);
+
+    const started = await client.importSubscribers(
+      [
+        { email: "a@example.com", name: "Doe, Jane", uid: "u1" },
+        { email: "b@example.com", attribs: { plan: "pro" } },
+      ],
+      { lists: [3], overwrite: true, subscriptionStatus: "confirmed" },
+    );
+    expect(started.success).toBe(true);
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://example.com/api/import/subscribers");
+    const form = init.body as FormData;
+    expect(JSON.parse(form.get("params") as string)).toEqual({
+      mode: "subscribe",
+      delim: ",",
+      lists: [3],
+      overwrite: true,
+      subscription_status: "confirmed",
+    });
+    expect(await (form.get("file") as Blob).text()).toBe(
+      [
+        "email,name,attributes",
+        'a@example.com,"Doe, Jane","{""uid"":""u1""}"',
+        'b@example.com,,"{""plan"":""pro""}"',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("uploads provided files and streams as is", async () => {
+    const client = new ListMonkClient(baseConfig);
+    const status = () =>
+      makeJsonResponse({
+        data: { name: "users.csv", total: 1, imported: 0, status: "importing" },
+      });
+    const fetchMock = queueFetch([status(), status()]);
+
+    const csv = "email;name\na@example.com;Jane\n";
+    const started = await client.importSubscribers(
+      new TextEncoder().encode(csv),
+      { delimiter: ";", filename: "users.csv" },
+    );
+    expect(started.success).toBe(true);
+    const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const file = (init.body as FormData).get("file") as File;
+    expect(file.name).toBe("users.csv");
+    expect(await file.text()).toBe(csv);
+
+    const stream = new Blob([csv]).stream();
+    expect((await client.importSubscribers(stream)).success).toBe(true);
+    const [, streamInit] = fetchMock.mock.calls[1] as [string, RequestInit];
+    const streamed = (streamInit.body as FormData).get("file") as File;
+    expect(await streamed.text()).toBe(csv);
+  });
+
+  it("polls an import to completion", async () => {
+    const client = new ListMonkClient(baseConfig);
+    const status = (state: string, imported: number) =>
+      makeJsonResponse({
+        data: { name: "subscribers.csv", total: 2, imported, status: state },
+      });
+    queueFetch([status("importing", 1), status("finished", 2)]);
+
+    const seen: number[] = [];
+    const done = await client.waitForImport({
+      intervalMS: 0,
+      onStatus: (s) => seen.push(s.imported),
+    });
+    expect(done.data?.status).toBe("finished");
+    expect(seen).toEqual([1, 2]);
+  });
+
+  it("rejects import entries without an email", async () => {
+    const client = new ListMonkClient(baseConfig);
+
+    const invalid = await client.importSubscribers([{ email: " " }]);
+    expect(invalid.code).toBe(400);
+    expect(invalid.message).toBe("Entry 0 is missing an email");
+  });
+
+  it("exports selected columns of list members as CSV", async () => {
+    const server = new LMCMockServer({
+      lists: [{ name: "News" }],
+      subscribers: [
+        {
+          email: "a@example.com",
+          name: "Doe, Jane",
+          attribs: { profile: { city: "Oslo" } },
+          lists: [1],
+        },
+        { email: "b@example.com", lists: [{ id: 1, status: "unsubscribed" }] },
+        { email: "c@example.com", lists: [1] },
+      ],
+    });
+    const client = new ListMonkClient({ ...baseConfig, fetch: server.fetch });
+
+    const lines: string[] = [];
+    for await (const line of client.exportSubscribers({
+      listId: 1,
+      status: "subscribed",
+      perPage: 1,
+      columns: ["email", "name", "attribs.profile.city", "subscription_status"],
+    })) {
+      lines.push(line);
+    }
+    expect(lines.join("")).toBe(
+      [
+        "email,name,attribs.profile.city,subscription_status",
+        'a@example.com,"Doe, Jane",Oslo,confirmed',
+        "c@example.com,c,,confirmed",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("streams NDJSON exports", async () => {
+    const server = new LMCMockServer({
+      lists: [{ name: "News" }, { name: "Offers" }],
+      subscribers: [
+        {
+          email: "a@example.com",
+          lists: [1, { id: 2, status: "unsubscribed" }],
+        },
+        { email: "b@example.com", lists: [1] },
+      ],
+    });
+    const client = new ListMonkClient({ ...baseConfig, fetch: server.fetch });
+
+    const ndjson = await new Response(
+      client.exportSubscribersStream({
+        format: "ndjson",
+        query: LMCQuery.eq("email", "a@example.com"),
+        columns: ["id", "lists"],
+      }),
+    ).text();
+    expect(
+      ndjson
+        .trim()
+        .split("\n")
+        .map((l) => JSON.parse(l)),
+    ).toEqual([
+      {
+        id: 1,
+        lists: [
+          { id: 1, subscription_status: "confirmed" },
+          { id: 2, subscription_status: "unsubscribed" },
+        ],
+      },
+    ]);
+  });
+
+  it("keeps attribs as one JSON column in default CSV exports", async () => {
+    const server = new LMCMockServer({
+      subscribers: [
+        { email: "a@example.com", attribs: { plan: "pro" } },
+        { email: "b@example.com", attribs: { city: "Oslo" } },
+      ],
+    });
+    const client = new ListMonkClient({ ...baseConfig, fetch: server.fetch });
+
+    const lines: string[] = [];
+    for await (const line of client.exportSubscribers({ perPage: 1 })) {
+      lines.push(line);
+    }
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toBe(
+      "id,uuid,email,name,status,created_at,updated_at,attribs\n",
+    );
+    expect(lines[2]).toMatch(/,"\{""city"":""Oslo""\}"\n$/);
+  });
+
+  it("flattens each row's attribs in default NDJSON exports", async () => {
+    const server = new LMCMockServer({
+      lists: [{ name: "News" }],
+      subscribers: [
+        { email: "a@example.com", attribs: { plan: "pro" }, lists: [1] },
+        {
+          email: "b@example.com",
+          attribs: { plan: "free", city: "Oslo" },
+          lists: [1],
+        },
+      ],
+    });
+    const client = new ListMonkClient({ ...baseConfig, fetch: server.fetch });
+
+    const rows: Record<string, unknown>[] = [];
+    for await (const line of client.exportSubscribers({
+      format: "ndjson",
+      listId: 1,
+      perPage: 1,
+    })) {
+      rows.push(JSON.parse(line));
+    }
+    expect(rows).toEqual([
+      expect.objectContaining({
+        email: "a@example.com",
+        "attribs.plan": "pro",
+        subscription_status: "confirmed",
+      }),
+      expect.objectContaining({
+        email: "b@example.com",
+        "attribs.plan": "free",
+        "attribs.city": "Oslo",
+      }),
+    ]);
+    expect(Object.keys(rows[0])).not.toContain("attribs");
+  });
+
+  it("rejects invalid export options", async () => {
+    const client = new ListMonkClient(baseConfig);
+
+    const bad = client.exportSubscribers({ status: "blocked" });
+    expect((await bad.next()).value).toMatchObject({ code: 400 });
+
+    const empty = client.exportSubscribers({ columns: [] });
+    expect((await empty.next()).value).toMatchObject({ code: 400 });
+  });
+
+  it("sends the opt-in mail for new double opt-in subscriptions", async () => {
+    const server = new LMCMockServer({
+      lists: [{ name: "Weekly", optin: "double" }, { name: "Single" }],
+    });
+    const client = new ListMonkClient({ ...baseConfig, fetch: server.fetch });
+
+    const created = await client.subscribe(
+      1,
+      { email: "new@example.com" },
+      { preconfirm: false },
+    );
+    expect(created.data?.optinSent).toBe(true);
+    const newId = created.data?.subscriber?.id as number;
+    expect(server.getMembership(newId, 1)).toBe("unconfirmed");
+
+    const single = await client.subscribe(2, { email: "new@example.com" });
+    expect(single.data?.optinSent).toBe(false);
+  });
+
+  it("sends the opt-in mail when re-attaching a pending member", async () => {
+    const server = new LMCMockServer({
+      lists: [{ name: "Weekly", optin: "double" }],
+      subscribers: [
+        {
+          email: "back@example.com",
+          lists: [{ id: 1, status: "unsubscribed" }],
+        },
+        {
+          email: "again@example.com",
+          lists: [{ id: 1, status: "unsubscribed" }],
+        },
+      ],
+    });
+    const client = new ListMonkClient({ ...baseConfig, fetch: server.fetch });
+
+    const explicit = await client.subscribe(
+      1,
+      { email: "back@example.com" },
+      { preconfirm: false },
+    );
+    expect(explicit.data?.optinSent).toBe(true);
+
+    const implicit = await client.subscribe(1, { email: "again@example.com" });
+    expect(implicit.data?.optinSent).toBe(true);
+    expect(server.getMembership(2, 1)).toBe("unconfirmed");
+    expect(
+      server.requests
+        .filter((r) => /^\/subscribers\/\d+\/optin$/.test(r.path))
+        .map((r) => r.path),
+    ).toEqual(["/subscribers/1/optin", "/subscribers/2/optin"]);
+  });
+
+  it("re-attaches a preconfirmed member without an opt-in mail", async () => {
+    const server = new LMCMockServer({
+      lists: [{ name: "Weekly", optin: "double" }],
+      subscribers: [
+        {
+          email: "back@example.com",
+          lists: [{ id: 1, status: "unsubscribed" }],
+        },
+      ],
+    });
+    const client = new ListMonkClient({ ...baseConfig, fetch: server.fetch });
+
+    const returning = await client.subscribe(
+      1,
+      { email: "back@example.com" },
+      { preconfirm: true },
+    );
+    expect(returning.data?.added).toBe(true);
+    expect(returning.data?.optinSent).toBe(false);
+    expect(server.getMembership(1, 1)).toBe("confirmed");
+    expect(
+      server.requests.filter((r) => r.path === "/subscribers/1/optin"),
+    ).toHaveLength(0);
+  });
+
+  it("moves existing memberships in the mock only when a status is given", async () => {
+    const server = new LMCMockServer({
+      lists: [{ name: "Weekly", optin: "double" }, { name: "Single" }],
+      subscribers: [
+        { email: "a@example.com", lists: [1, 2] },
+        {
+          email: "b@example.com",
+          lists: [{ id: 1, status: "unsubscribed" }],
+        },
+      ],
+    });
+    const client = new ListMonkClient({ ...baseConfig, fetch: server.fetch });
+
+    await client.put("/subscribers/lists", {
+      ids: [1, 2],
+      action: "add",
+      target_list_ids: [1],
+    });
+    expect(server.getMembership(1, 1)).toBe("confirmed");
+    expect(server.getMembership(2, 1)).toBe("unconfirmed");
+
+    await client.put("/subscribers/lists", {
+      ids: [1],
+      action: "add",
+      target_list_ids: [1, 2],
+      status: "unconfirmed",
+    });
+    expect(server.getMembership(1, 1)).toBe("unconfirmed");
+    expect(server.getMembership(1, 2)).toBe("unconfirmed");
+  });
+
+  it("lists and confirms pending subscriptions", async () => {
+    const server = new LMCMockServer({
+      lists: [{ name: "Weekly", optin: "double" }, { name: "Single" }],
+      subscribers: [
+        {
+          email: "new@example.com",
+          lists: [{ id: 1, status: "unconfirmed" }, 2],
+        },
+        { email: "done@example.com", lists: [1] },
+      ],
+    });
+    const client = new ListMonkClient({ ...baseConfig, fetch: server.fetch });
+
+    const pending = await client.listUnconfirmedMembers();
+    expect(pending.data?.results.map((s) => s.email)).toEqual([
+      "new@example.com",
+    ]);
+
+    const confirmed = await client.confirmSubscriptions(
+      { email: "new@example.com" },
+      [1, 2, 3],
+    );
+    expect(confirmed.data).toEqual({
+      subscriberId: 1,
+      confirmed: [1],
+      alreadyConfirmed: [2],
+      notSubscribed: [3],
+    });
+    expect(server.getMembership(1, 1)).toBe("confirmed");
+  });
+
+  it("resends the opt-in mail for pending subscriptions", async () => {
+    const server = new LMCMockServer({
+      lists: [{ name: "Weekly", optin: "double" }],
+      subscribers: [
+        { email: "new@example.com", lists: [{ id: 1, status: "unconfirmed" }] },
+        { email: "done@example.com", lists: [1] },
+      ],
+    });
+    const client = new ListMonkClient({ ...baseConfig, fetch: server.fetch });
+
+    const resent = await client.sendOptinConfirmation({
+      email: "new@example.com",
+    });
+    expect(resent.success).toBe(true);
+
+    const nothing = await client.sendOptinConfirmation({
+      email: "done@example.com",
+    });
+    expect(nothing.code).toBe(400);
+  });
+
+  it("lists public lists without credentials", async () => {
+    const client = new LMCPublicClient({
+      baseURL: "https://example.com/api/",
+    });
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: [{ uuid: "list-uuid", name: "News" }] }),
+    ]);
+
+    const lists = await client.listPublicLists();
+    expect(lists.data).toEqual([{ uuid: "list-uuid", name: "News" }]);
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://example.com/api/public/lists");
+    expect(new Headers(init.headers).has("Authorization")).toBe(false);
+  });
+
+  it("subscribes through the public JSON endpoint", async () => {
+    const client = new LMCPublicClient({ baseURL: "https://example.com" });
+    const fetchMock = queueFetch([
+      makeJsonResponse({ data: { has_optin: true } }),
+    ]);
+
+    const joined = await client.subscribe({
+      email: "jane@example.com",
+      listUUIDs: ["list-uuid"],
+    });
+    expect(joined.data).toEqual({ hasOptin: true });
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://example.com/api/public/subscription");
+    expect(JSON.parse(init.body as string)).toEqual({
+      email: "jane@example.com",
+      name: "",
+      list_uuids: ["list-uuid"],
+    });
+
+    const invalid = await client.subscribe({
+      email: "x@example.com",
+      listUUIDs: [],
+    });
+    expect(invalid.code).toBe(400);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("posts captcha subscriptions to the form endpoint", async () => {
+    const client = new LMCPublicClient({ baseURL: "https://example.com" });
+    const fetchMock = queueFetch([
+      new Response("<html><h2>Error</h2><p>Invalid captcha.</p></html>", {
+        status: 400,
+        headers: { "Content-Type": "text/html" },
+      }),
+    ]);
+
+    const rejected = await client.subscribe({
+      email: "jane@example.com",
+      name: "Jane",
+      listUUIDs: ["list-uuid"],
+      captcha: { altcha: "payload" },
+    });
+    expect(rejected.success).toBe(false);
+    expect(rejected.code).toBe(400);
+    expect(rejected.message).toBe("Invalid captcha.");
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://example.com/subscription/form");
+    expect((init.body as URLSearchParams).toString()).toBe(
+      "email=jane%40example.com&name=Jane&l=list-uuid&nonce=&altcha=payload",
+    );
+  });
 });